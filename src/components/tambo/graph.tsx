@@ -1,7 +1,13 @@
 "use client";
 
+import { downsampleSeries } from "@/lib/downsample";
+import { useSendThreadMessage } from "@/lib/thread-hooks";
+import { useChartExport } from "@/lib/use-chart-export";
 import { cn } from "@/lib/utils";
+import * as DropdownMenu from "@radix-ui/react-dropdown-menu";
+import { useTamboComponentState } from "@tambo-ai/react";
 import { cva } from "class-variance-authority";
+import { ChartColumn, Download, MessageSquare, Table, X } from "lucide-react";
 import * as React from "react";
 import * as RechartsCore from "recharts";
 import { z } from "zod/v3";
@@ -102,21 +108,179 @@ class GraphErrorBoundary extends React.Component<
   }
 }
 
+/**
+ * Chart types supported by the Graph component
+ */
+export const graphTypes = [
+  "bar",
+  "line",
+  "pie",
+  "area",
+  "stackedBar",
+  "stackedArea",
+  "scatter",
+  "radar",
+  "composed",
+] as const;
+
+/**
+ * Zod schema for a single (x, y) point used by scatter charts
+ */
+export const graphPointSchema = z.object({
+  x: z.number().describe("Numeric x value"),
+  y: z.number().describe("Numeric y value"),
+  color: z.string().optional().describe("Optional color for this point"),
+});
+
+/**
+ * Zod schema for a single dataset
+ */
+export const graphDatasetSchema = z.object({
+  label: z.string().describe("Label for the dataset"),
+  data: z
+    .array(z.number())
+    .describe(
+      "Data points for the dataset, one per label. Leave empty for scatter charts and use points instead",
+    ),
+  color: z.string().optional().describe("Optional color for the dataset"),
+  colors: z
+    .array(z.string())
+    .optional()
+    .describe(
+      "Optional per-point colors, one per label. Used by bar and pie charts (each pie slice gets its own color)",
+    ),
+  points: z
+    .array(graphPointSchema)
+    .optional()
+    .describe(
+      "Scatter charts only: numeric x/y pairs to plot. Labels are not used for scatter charts",
+    ),
+  seriesType: z
+    .enum(["bar", "line", "area"])
+    .optional()
+    .describe(
+      "Composed charts only: how to draw this dataset (default: bar for the first dataset, line for the rest)",
+    ),
+  stackId: z
+    .string()
+    .optional()
+    .describe(
+      "Stacked charts only: datasets with the same stackId are stacked together (default: all datasets share one stack)",
+    ),
+  axis: z
+    .enum(["left", "right"])
+    .optional()
+    .describe(
+      "Which Y axis this dataset is plotted against (default: left). Use right together with y2Axis for values on a different scale",
+    ),
+  lower: z
+    .array(z.number())
+    .optional()
+    .describe(
+      "Line and area series only: lower bound per label, e.g. of a confidence interval. Together with upper it is drawn as a shaded band around the series",
+    ),
+  upper: z
+    .array(z.number())
+    .optional()
+    .describe(
+      "Line and area series only: upper bound per label, used together with lower",
+    ),
+});
+
 /**
  * Zod schema for GraphData
  */
 export const graphDataSchema = z.object({
-  type: z.enum(["bar", "line", "pie"]).describe("Type of graph to render"),
-  labels: z.array(z.string()).describe("Labels for the graph"),
-  datasets: z
-    .array(
-      z.object({
-        label: z.string().describe("Label for the dataset"),
-        data: z.array(z.number()).describe("Data points for the dataset"),
-        color: z.string().optional().describe("Optional color for the dataset"),
-      }),
-    )
-    .describe("Data for the graph"),
+  type: z
+    .enum(graphTypes)
+    .describe(
+      "Type of graph to render. bar/line/area compare values across labels, stackedBar/stackedArea show parts of a total, pie shows the share of a single dataset, scatter shows correlation between numeric x/y pairs, radar compares several variables across datasets, composed mixes bars and lines in one chart",
+    ),
+  labels: z
+    .array(z.string())
+    .describe("Labels for the graph (categories on the x axis)"),
+  datasets: z.array(graphDatasetSchema).describe("Data for the graph"),
+});
+
+/**
+ * Zod schema for an axis configuration
+ */
+export const graphAxisSchema = z.object({
+  label: z.string().optional().describe("Title shown along the axis"),
+  prefix: z
+    .string()
+    .optional()
+    .describe("Text shown before every value, e.g. '$'"),
+  suffix: z
+    .string()
+    .optional()
+    .describe("Unit shown after every value, e.g. 'B' or '%'"),
+  format: z
+    .enum(["number", "compact", "percent", "currency"])
+    .optional()
+    .describe(
+      "Number formatting: number (default), compact (1.2K, 3.4M), percent (values are fractions, 0.25 is shown as 25%), currency (uses the currency field)",
+    ),
+  currency: z
+    .string()
+    .optional()
+    .describe("ISO 4217 currency code for currency format (default: USD)"),
+  decimals: z
+    .number()
+    .optional()
+    .describe("Maximum number of decimal places to show"),
+  min: z.number().optional().describe("Lower bound of the axis domain"),
+  max: z.number().optional().describe("Upper bound of the axis domain"),
+  scale: z
+    .enum(["linear", "log"])
+    .optional()
+    .describe(
+      "Axis scale (default: linear). Log scale requires all values to be positive",
+    ),
+});
+
+/**
+ * Zod schema for the X axis configuration
+ */
+export const graphXAxisSchema = graphAxisSchema.extend({
+  type: z
+    .enum(["category", "time"])
+    .optional()
+    .describe(
+      "category (default) treats labels as plain text. time parses labels as years (e.g. '2020') or ISO dates (e.g. '2020-03-15') and spaces them proportionally; use it for any year or date series",
+    ),
+});
+
+/**
+ * Zod schema for a chart annotation
+ */
+export const graphAnnotationSchema = z.object({
+  type: z
+    .enum(["verticalLine", "horizontalLine", "area", "point"])
+    .describe(
+      "verticalLine marks an x value (e.g. an event), horizontalLine marks a y value (e.g. a target), area shades the region between x/x2 and/or y/y2, point labels a single x/y value",
+    ),
+  label: z.string().optional().describe("Text shown next to the annotation"),
+  x: z
+    .union([z.string(), z.number()])
+    .optional()
+    .describe(
+      "X position: one of the labels (or a year/date on time axes, a number on scatter charts). Required for verticalLine and point",
+    ),
+  x2: z
+    .union([z.string(), z.number()])
+    .optional()
+    .describe("Area only: end of the shaded X range"),
+  y: z
+    .number()
+    .optional()
+    .describe("Y value. Required for horizontalLine and point"),
+  y2: z.number().optional().describe("Area only: end of the shaded Y range"),
+  axis: z
+    .enum(["left", "right"])
+    .optional()
+    .describe("Which Y axis y/y2 refer to (default: left)"),
+  color: z.string().optional().describe("Optional color for the annotation"),
 });
 
 /**
@@ -131,6 +295,59 @@ export const graphSchema = z.object({
     .boolean()
     .optional()
     .describe("Whether to show the legend (default: true)"),
+  palette: z
+    .enum(["categorical", "sequential", "diverging", "colorblind"])
+    .optional()
+    .describe(
+      "Color palette for datasets without an explicit color (default: categorical). sequential suits ordered values, diverging suits values around a midpoint, colorblind is safe for color vision deficiencies",
+    ),
+  xAxis: graphXAxisSchema
+    .optional()
+    .describe(
+      "X axis configuration. Number formatting and domain only apply to scatter charts",
+    ),
+  yAxis: graphAxisSchema
+    .optional()
+    .describe("Primary (left) Y axis configuration"),
+  y2Axis: graphAxisSchema
+    .optional()
+    .describe(
+      "Optional secondary (right) Y axis for datasets with axis: 'right'",
+    ),
+  annotations: z
+    .array(graphAnnotationSchema)
+    .optional()
+    .describe(
+      "Reference lines, shaded areas and point labels drawn on bar, line, area, composed and scatter charts",
+    ),
+  brush: z
+    .boolean()
+    .optional()
+    .describe(
+      "Whether to show a brush below bar/line/area charts for zooming into a range of the X axis (default: true for time axes, false otherwise)",
+    ),
+  locale: z
+    .string()
+    .optional()
+    .describe("BCP 47 locale used to format numbers, e.g. 'en-US' or 'de-DE'"),
+  maxPoints: z
+    .number()
+    .optional()
+    .describe(
+      "Line and area charts with more points than this are downsampled for display (default: 1000). The data table and exports always include every point",
+    ),
+  allowFollowUp: z
+    .boolean()
+    .optional()
+    .describe(
+      "Whether to show an 'Ask about this' action when the user selects a data point (default: true)",
+    ),
+  followUpTemplate: z
+    .string()
+    .optional()
+    .describe(
+      "Follow-up message sent by 'Ask about this'. {label}, {dataset} and {value} are replaced with the selected point, e.g. 'Show the countries in {label} by population'",
+    ),
   variant: z
     .enum(["default", "solid", "bordered"])
     .optional()
@@ -156,19 +373,603 @@ export type GraphProps = z.infer<typeof graphSchema>;
 export type GraphDataType = z.infer<typeof graphDataSchema>;
 
 /**
- * Default colors for the Graph component.
+ * TypeScript type inferred from the Zod schema
+ */
+export type GraphDataset = z.infer<typeof graphDatasetSchema>;
+
+/**
+ * TypeScript type inferred from the Zod schema
+ */
+export type GraphAxis = z.infer<typeof graphAxisSchema>;
+
+/**
+ * TypeScript type inferred from the Zod schema
+ */
+export type GraphAnnotation = z.infer<typeof graphAnnotationSchema>;
+
+// Population in millions by continent, shared by the sample props
+const SAMPLE_CONTINENTS = ["Africa", "Americas", "Asia", "Europe", "Oceania"];
+const SAMPLE_POPULATION_2000 = [811, 836, 3740, 726, 31];
+const SAMPLE_POPULATION_2020 = [1360, 1020, 4640, 746, 43];
+
+/**
+ * Valid props for every chart type, used to preview the component. Samples
+ * generated from the schema cannot express that scatter charts need points
+ * instead of data.
+ */
+export const graphSamples = graphTypes.map((type) => {
+  const value: GraphProps = {
+    title: "Population by continent (millions)",
+    data:
+      type === "scatter"
+        ? {
+            type,
+            labels: [],
+            datasets: [
+              {
+                label: "2000 vs 2020",
+                data: [],
+                points: SAMPLE_POPULATION_2000.map((x, index) => ({
+                  x,
+                  y: SAMPLE_POPULATION_2020[index],
+                })),
+              },
+            ],
+          }
+        : {
+            type,
+            labels: SAMPLE_CONTINENTS,
+            datasets: [
+              { label: "2020", data: SAMPLE_POPULATION_2020 },
+              ...(type === "pie"
+                ? []
+                : [{ label: "2000", data: SAMPLE_POPULATION_2000 }]),
+            ],
+          },
+  };
+  return { label: `data.type: ${type}`, value };
+});
+
+/**
+ * Named palette selectable through the schema
+ */
+export type GraphPalette = NonNullable<GraphProps["palette"]>;
+
+/**
+ * The X axis window the user is currently looking at, synced to the thread
+ * so the assistant can see which part of the chart is in view
+ */
+export type GraphRangeState = {
+  startIndex: number;
+  endIndex: number;
+  startLabel: string;
+  endLabel: string;
+} | null;
+
+/**
+ * Builds a list of `var(--token-n)` references for a palette.
  *
  * Color handling: our v4 theme defines CSS variables like `--border`,
  * `--muted-foreground`, and `--chart-1` as full OKLCH color values in
- * `globals-v4.css`, so we pass them directly as `var(--token)` to
- * Recharts/SVG props instead of wrapping them in `hsl()`/`oklch()`.
+ * `globals.css`, so we pass them directly as `var(--token)` to
+ * Recharts/SVG props instead of wrapping them in `hsl()`/`oklch()`. The
+ * light and dark values of each token live in `:root` and `.dark`.
+ */
+const paletteTokens = (prefix: string, count: number) =>
+  Array.from({ length: count }, (_, index) => `var(--${prefix}-${index + 1})`);
+
+/**
+ * Named color palettes for the Graph component
+ */
+const graphPalettes: Record<GraphPalette, string[]> = {
+  categorical: paletteTokens("chart", 8),
+  sequential: paletteTokens("chart-sequential", 5),
+  diverging: paletteTokens("chart-diverging", 5),
+  colorblind: paletteTokens("chart-colorblind", 8),
+};
+
+/**
+ * Derives a lighter shade of a color for the nth of `count` slices, used
+ * when a pie chart has a single dataset color but no per-slice colors.
+ */
+function shadeColor(color: string, index: number, count: number): string {
+  if (count <= 1) return color;
+  const weight = Math.round(100 - (index / count) * 70);
+  return `color-mix(in oklch, ${color} ${weight}%, var(--background))`;
+}
+
+/**
+ * Builds an Intl.NumberFormat for an axis, falling back to plain number
+ * formatting when the locale or currency is invalid (e.g. still streaming).
+ */
+function createNumberFormat(axis: GraphAxis | undefined, locale?: string) {
+  const format = axis?.format ?? "number";
+  const options: Intl.NumberFormatOptions = {
+    ...(format === "compact" && { notation: "compact" }),
+    ...(format === "percent" && { style: "percent" }),
+    ...(format === "currency" && {
+      style: "currency",
+      currency: axis?.currency ?? "USD",
+    }),
+    ...(axis?.decimals !== undefined && {
+      minimumFractionDigits: 0,
+      maximumFractionDigits: Math.max(0, Math.min(20, axis.decimals)),
+    }),
+  };
+
+  try {
+    return new Intl.NumberFormat(locale, options);
+  } catch {
+    try {
+      return new Intl.NumberFormat(undefined, options);
+    } catch {
+      return new Intl.NumberFormat();
+    }
+  }
+}
+
+/**
+ * Creates a value formatter for an axis that applies number formatting and
+ * the configured prefix/suffix. Non-numeric values are passed through.
+ */
+function createValueFormatter(axis: GraphAxis | undefined, locale?: string) {
+  const numberFormat = createNumberFormat(axis, locale);
+  return (value: unknown): string => {
+    if (typeof value !== "number" || !Number.isFinite(value)) {
+      return String(value ?? "");
+    }
+    return `${axis?.prefix ?? ""}${numberFormat.format(value)}${axis?.suffix ?? ""}`;
+  };
+}
+
+/**
+ * The data point the user clicked, synced to the thread so the assistant
+ * can see what the user is focused on. `dataset` and `value` are omitted when
+ * the selection covers a whole label (e.g. clicking a line chart column).
+ */
+export type GraphSelectionState = {
+  label: string;
+  dataset?: string;
+  value?: number;
+} | null;
+
+/**
+ * A row of chart data as passed to Recharts: one value per dataset label
+ */
+type GraphChartDatum = {
+  name: string;
+  time?: number;
+  [datasetLabel: string]: string | number | [number, number] | undefined;
+};
+
+/**
+ * Suffix of the chart data key holding a dataset's [lower, upper] band
+ */
+const BAND_KEY_SUFFIX = "__band";
+
+/**
+ * Builds the follow-up message for the selected data point. A custom
+ * template only has its placeholders filled in; without one the message
+ * mentions the dataset and value when a single point is selected.
+ */
+function buildFollowUpMessage(
+  template: string | undefined,
+  selection: NonNullable<GraphSelectionState>,
+  formatValue: (value: unknown) => string,
+): string {
+  const value =
+    selection.value !== undefined ? formatValue(selection.value) : "";
+  if (template) {
+    return template
+      .replace(/\{label\}/g, selection.label)
+      .replace(/\{dataset\}/g, selection.dataset ?? "all datasets")
+      .replace(/\{value\}/g, value);
+  }
+  if (!selection.dataset) return `Tell me more about ${selection.label}`;
+  return value
+    ? `Tell me more about ${selection.label} (${selection.dataset}: ${value})`
+    : `Tell me more about ${selection.label} (${selection.dataset})`;
+}
+
+const YEAR_PATTERN = /^\d{4}$/;
+const YEAR_MONTH_PATTERN = /^\d{4}-\d{2}$/;
+const ISO_DATE_PATTERN =
+  /^\d{4}-\d{2}(-\d{2}([T ]\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:?\d{2})?)?)?$/;
+
+/**
+ * Parses a year ("2020") or ISO date ("2020-03-15") label into a timestamp.
+ * Returns null for anything else.
+ */
+function parseTimeLabel(label: string): number | null {
+  const trimmed = label.trim();
+  if (YEAR_PATTERN.test(trimmed)) {
+    return Date.UTC(Number(trimmed), 0, 1);
+  }
+  if (!ISO_DATE_PATTERN.test(trimmed)) {
+    return null;
+  }
+  const time = Date.parse(
+    YEAR_MONTH_PATTERN.test(trimmed) ? `${trimmed}-01` : trimmed,
+  );
+  return Number.isNaN(time) ? null : time;
+}
+
+/**
+ * Creates a tick formatter for a time axis whose granularity matches the
+ * labels: years only, months, or full dates.
+ */
+function createTimeFormatter(labels: string[], locale?: string) {
+  const trimmed = labels.map((label) => label.trim());
+  const options: Intl.DateTimeFormatOptions = trimmed.every((label) =>
+    YEAR_PATTERN.test(label),
+  )
+    ? { year: "numeric" }
+    : trimmed.every((label) => YEAR_MONTH_PATTERN.test(label))
+      ? { year: "numeric", month: "short" }
+      : { year: "numeric", month: "short", day: "numeric" };
+
+  let dateFormat: Intl.DateTimeFormat;
+  try {
+    dateFormat = new Intl.DateTimeFormat(locale, {
+      ...options,
+      timeZone: "UTC",
+    });
+  } catch {
+    dateFormat = new Intl.DateTimeFormat(undefined, {
+      ...options,
+      timeZone: "UTC",
+    });
+  }
+
+  return (value: unknown): string =>
+    typeof value === "number" ? dateFormat.format(value) : String(value ?? "");
+}
+
+/**
+ * Computes the Recharts domain for an axis from its optional min/max
+ */
+function getAxisDomain(
+  axis: GraphAxis | undefined,
+): [number | "auto", number | "auto"] {
+  return [axis?.min ?? "auto", axis?.max ?? "auto"];
+}
+
+/**
+ * Describes the direction of a series by comparing its first and last values
+ */
+function describeTrend(first: number, last: number): string {
+  const change = last - first;
+  const tolerance = Math.max(Math.abs(first), Math.abs(last)) * 0.01;
+  if (Math.abs(change) <= tolerance) return "roughly flat";
+  return change > 0 ? "trending up" : "trending down";
+}
+
+/**
+ * Builds a plain-text summary of the chart for screen readers: the min, max
+ * and overall trend of every dataset.
+ */
+function summarizeGraph({
+  type,
+  chartData,
+  datasets,
+  formatLabel,
+  getFormatter,
+}: {
+  type: string;
+  chartData: GraphChartDatum[];
+  datasets: GraphDataset[];
+  formatLabel: (point: GraphChartDatum) => string;
+  getFormatter: (dataset: GraphDataset) => (value: unknown) => string;
+}): string {
+  if (type === "scatter") {
+    return datasets
+      .map((dataset) => {
+        const points = dataset.points ?? [];
+        const [minX, maxX, minY, maxY] = points.reduce(
+          ([loX, hiX, loY, hiY], point) => [
+            Math.min(loX, point.x),
+            Math.max(hiX, point.x),
+            Math.min(loY, point.y),
+            Math.max(hiY, point.y),
+          ],
+          [Infinity, -Infinity, Infinity, -Infinity],
+        );
+        return `${dataset.label}: ${points.length} points, x from ${minX} to ${maxX}, y from ${minY} to ${maxY}.`;
+      })
+      .join(" ");
+  }
+
+  const datasetSummaries = datasets.map((dataset) => {
+    const format = getFormatter(dataset);
+    const values = chartData.map((point) => Number(point[dataset.label]));
+    let minIndex = 0;
+    let maxIndex = 0;
+    values.forEach((value, index) => {
+      if (value < values[minIndex]) minIndex = index;
+      if (value > values[maxIndex]) maxIndex = index;
+    });
+    const summary = `${dataset.label}: minimum ${format(values[minIndex])} at ${formatLabel(chartData[minIndex])}, maximum ${format(values[maxIndex])} at ${formatLabel(chartData[maxIndex])}`;
+    return values.length > 1 && type !== "pie" && type !== "radar"
+      ? `${summary}, ${describeTrend(values[0], values[values.length - 1])} from ${format(values[0])} to ${format(values[values.length - 1])}.`
+      : `${summary}.`;
+  });
+
+  return `${chartData.length} data points. ${datasetSummaries.join(" ")}`;
+}
+
+/**
+ * Line and area charts with more points than this are downsampled
+ */
+const DEFAULT_MAX_POINTS = 1000;
+
+/**
+ * Chart types whose series are continuous enough to downsample
  */
-const defaultColors = [
-  "hsl(220, 100%, 62%)", // Blue
-  "hsl(160, 82%, 47%)", // Green
-  "hsl(32, 100%, 62%)", // Orange
-  "hsl(340, 82%, 66%)", // Pink
-];
+const DOWNSAMPLED_TYPES = new Set(["line", "area", "stackedArea"]);
+
+/**
+ * Fixed row height and render window for the virtualized data table
+ */
+const TABLE_ROW_HEIGHT = 28;
+const TABLE_OVERSCAN = 10;
+const TABLE_WINDOW_SIZE = 60;
+
+/**
+ * Result of turning (possibly partial) Graph data into Recharts rows
+ */
+type PreparedGraphData =
+  | { status: "empty" }
+  | { status: "building" }
+  | { status: "preparing" }
+  | {
+      status: "ready";
+      isScatter: boolean;
+      validDatasets: GraphDataset[];
+      maxDataPoints: number;
+      isTimeSeries: boolean;
+      /** Every point, in display order */
+      fullChartData: GraphChartDatum[];
+      /** The points actually rendered, after downsampling */
+      chartData: GraphChartDatum[];
+      /** Index into labels/data for every rendered point */
+      sourceIndices: number[];
+    };
+
+/**
+ * Validates Graph data, which may still be streaming, and transforms it into
+ * Recharts rows. Large line/area series are downsampled with LTTB.
+ */
+function prepareGraphData(
+  data: GraphDataType | undefined,
+  options: { timeAxis: boolean; maxPoints: number },
+): PreparedGraphData {
+  if (!data) return { status: "empty" };
+
+  const isScatter = data.type === "scatter";
+
+  // Check if we have the minimum viable data structure. Scatter charts plot
+  // x/y pairs directly, so they don't need labels.
+  const hasValidStructure =
+    data.type &&
+    data.labels &&
+    data.datasets &&
+    Array.isArray(data.labels) &&
+    Array.isArray(data.datasets) &&
+    (isScatter || data.labels.length > 0) &&
+    data.datasets.length > 0;
+
+  if (!hasValidStructure) return { status: "building" };
+
+  // Filter datasets to only include those with valid data
+  const validDatasets = data.datasets.filter((dataset) =>
+    isScatter
+      ? dataset.label &&
+        Array.isArray(dataset.points) &&
+        dataset.points.length > 0
+      : dataset.label &&
+        dataset.data &&
+        Array.isArray(dataset.data) &&
+        dataset.data.length > 0,
+  );
+
+  if (validDatasets.length === 0) return { status: "preparing" };
+
+  // Use the minimum length between labels and the shortest dataset
+  const maxDataPoints = isScatter
+    ? 0
+    : validDatasets.reduce(
+        (min, dataset) => Math.min(min, dataset.data.length),
+        data.labels.length,
+      );
+
+  // Time axes only make sense for cartesian charts whose labels all parse
+  // as dates; anything else falls back to a categorical axis.
+  const labelTimes = options.timeAxis
+    ? data.labels
+        .slice(0, maxDataPoints)
+        .map((label) => parseTimeLabel(String(label)))
+    : [];
+  const isTimeSeries =
+    options.timeAxis &&
+    !["pie", "radar", "scatter"].includes(data.type) &&
+    labelTimes.length > 0 &&
+    labelTimes.every((time) => time !== null);
+
+  // Index into labels/data for every chart point. Time series must be in
+  // chronological order, e.g. population trends are returned newest first
+  const orderedIndices = Array.from({ length: maxDataPoints }, (_, i) => i);
+  if (isTimeSeries) {
+    orderedIndices.sort((a, b) => (labelTimes[a] ?? 0) - (labelTimes[b] ?? 0));
+  }
+
+  // Transform data for Recharts using only available data points
+  const fullChartData: GraphChartDatum[] = orderedIndices.map((index) => {
+    const point: GraphChartDatum = { name: data.labels[index] };
+    if (isTimeSeries) point.time = labelTimes[index] as number;
+    for (const dataset of validDatasets) {
+      const value = dataset.data[index] ?? 0;
+      point[dataset.label] = value;
+      if (dataset.lower && dataset.upper) {
+        point[`${dataset.label}${BAND_KEY_SUFFIX}`] = [
+          dataset.lower[index] ?? value,
+          dataset.upper[index] ?? value,
+        ];
+      }
+    }
+    return point;
+  });
+
+  let chartData = fullChartData;
+  let sourceIndices = orderedIndices;
+  if (
+    DOWNSAMPLED_TYPES.has(data.type) &&
+    fullChartData.length > options.maxPoints
+  ) {
+    const xs = fullChartData.map((point, position) => point.time ?? position);
+    const positions = downsampleSeries(
+      xs,
+      validDatasets.map((dataset) =>
+        fullChartData.map((point) => Number(point[dataset.label])),
+      ),
+      Math.max(3, options.maxPoints),
+    );
+    chartData = positions.map((position) => fullChartData[position]);
+    sourceIndices = positions.map((position) => orderedIndices[position]);
+  }
+
+  return {
+    status: "ready",
+    isScatter,
+    validDatasets,
+    maxDataPoints,
+    isTimeSeries,
+    fullChartData,
+    chartData,
+    sourceIndices,
+  };
+}
+
+/**
+ * Props for the GraphExportMenu component
+ */
+interface GraphExportMenuProps {
+  canExportImage: boolean;
+  onExportSvg: () => void;
+  onExportPng: () => void;
+  onExportCsv: () => void;
+}
+
+/**
+ * Dropdown menu in the Graph header for downloading the chart
+ */
+function GraphExportMenu({
+  canExportImage,
+  onExportSvg,
+  onExportPng,
+  onExportCsv,
+}: GraphExportMenuProps) {
+  const itemClassName =
+    "relative flex cursor-pointer select-none items-center rounded-sm px-2 py-1.5 text-sm outline-none hover:bg-accent hover:text-accent-foreground data-[highlighted]:bg-accent data-[highlighted]:text-accent-foreground data-[disabled]:pointer-events-none data-[disabled]:opacity-50";
+
+  return (
+    <DropdownMenu.Root>
+      <DropdownMenu.Trigger asChild>
+        <button
+          type="button"
+          className="w-7 h-7 rounded-md text-muted-foreground transition-colors hover:bg-muted hover:text-foreground flex items-center justify-center focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring"
+          aria-label="Export chart"
+          data-slot="graph-export-button"
+        >
+          <Download className="w-4 h-4" />
+        </button>
+      </DropdownMenu.Trigger>
+      <DropdownMenu.Portal>
+        <DropdownMenu.Content
+          className="z-50 min-w-[140px] overflow-hidden rounded-md border border-border bg-popover p-1 text-popover-foreground shadow-md"
+          align="end"
+          sideOffset={5}
+        >
+          <DropdownMenu.Item
+            className={itemClassName}
+            onSelect={onExportPng}
+            disabled={!canExportImage}
+          >
+            Download PNG
+          </DropdownMenu.Item>
+          <DropdownMenu.Item
+            className={itemClassName}
+            onSelect={onExportSvg}
+            disabled={!canExportImage}
+          >
+            Download SVG
+          </DropdownMenu.Item>
+          <DropdownMenu.Item className={itemClassName} onSelect={onExportCsv}>
+            Download CSV
+          </DropdownMenu.Item>
+        </DropdownMenu.Content>
+      </DropdownMenu.Portal>
+    </DropdownMenu.Root>
+  );
+}
+
+/**
+ * Props for the GraphSelectionBar component
+ */
+interface GraphSelectionBarProps {
+  selection: NonNullable<GraphSelectionState>;
+  formatValue: (value: unknown) => string;
+  onClear: () => void;
+  onAsk?: () => void;
+  isAskDisabled?: boolean;
+}
+
+/**
+ * Shows the selected data point in the Graph header with an optional
+ * "Ask about this" action
+ */
+function GraphSelectionBar({
+  selection,
+  formatValue,
+  onClear,
+  onAsk,
+  isAskDisabled,
+}: GraphSelectionBarProps) {
+  return (
+    <div
+      className="flex items-center gap-1 min-w-0 rounded-md bg-muted px-2 py-0.5 text-xs text-foreground"
+      data-slot="graph-selection"
+    >
+      <span className="truncate">
+        {selection.label}
+        {selection.dataset && selection.value !== undefined && (
+          <span className="text-muted-foreground">
+            {" "}
+            · {selection.dataset}: {formatValue(selection.value)}
+          </span>
+        )}
+      </span>
+      {onAsk && (
+        <button
+          type="button"
+          className="flex items-center gap-1 shrink-0 rounded px-1 py-0.5 font-medium transition-colors hover:bg-background disabled:opacity-50 disabled:pointer-events-none"
+          onClick={onAsk}
+          disabled={isAskDisabled}
+        >
+          <MessageSquare className="w-3 h-3" />
+          Ask about this
+        </button>
+      )}
+      <button
+        type="button"
+        className="shrink-0 rounded p-0.5 text-muted-foreground transition-colors hover:bg-background hover:text-foreground"
+        onClick={onClear}
+        aria-label="Clear selection"
+      >
+        <X className="w-3 h-3" />
+      </button>
+    </div>
+  );
+}
 
 /**
  * A component that renders various types of charts using Recharts
@@ -193,15 +994,97 @@ const defaultColors = [
  */
 export const Graph = React.forwardRef<HTMLDivElement, GraphProps>(
   (
-    { className, variant, size, data, title, showLegend = true, ...props },
+    {
+      className,
+      variant,
+      size,
+      data,
+      title,
+      showLegend = true,
+      palette = "categorical",
+      xAxis,
+      yAxis,
+      y2Axis,
+      brush,
+      annotations,
+      locale,
+      allowFollowUp = true,
+      followUpTemplate,
+      maxPoints,
+      ...props
+    },
     ref,
   ) => {
+    const { containerRef, exportSvg, exportPng, exportCsv } =
+      useChartExport<HTMLDivElement>(data, title);
+    const [range, setRange] = useTamboComponentState<GraphRangeState>(
+      "graph-range",
+      null,
+    );
+    const [selection, setSelection] =
+      useTamboComponentState<GraphSelectionState>("graph-selection", null);
+    const { send: sendFollowUp, isDisabled: isFollowUpDisabled } =
+      useSendThreadMessage();
+    const [view, setView] = React.useState<"chart" | "table">("chart");
+    const [focusedIndex, setFocusedIndex] = React.useState<number | null>(null);
+    const summaryId = React.useId();
+    const [tableScrollTop, setTableScrollTop] = React.useState(0);
+
+    // Deriving chart rows is linear in the number of points, so only redo it
+    // when the data itself changes rather than on every streamed prop update
+    // or interaction
+    const prepared = React.useMemo(
+      () =>
+        prepareGraphData(data, {
+          timeAxis: xAxis?.type === "time",
+          maxPoints: maxPoints ?? DEFAULT_MAX_POINTS,
+        }),
+      [data, xAxis?.type, maxPoints],
+    );
+
+    // Choosing the time format and summarizing the chart also walk every
+    // point, so they are memoized on the prepared data in the same way
+    const formatTime = React.useMemo(
+      () =>
+        createTimeFormatter(
+          prepared.status === "ready"
+            ? prepared.fullChartData.map((point) => point.name)
+            : [],
+          locale,
+        ),
+      [prepared, locale],
+    );
+    const formatY = React.useMemo(
+      () => createValueFormatter(yAxis, locale),
+      [yAxis, locale],
+    );
+    const formatY2 = React.useMemo(
+      () => createValueFormatter(y2Axis ?? yAxis, locale),
+      [y2Axis, yAxis, locale],
+    );
+    const summary = React.useMemo(
+      () =>
+        data && prepared.status === "ready"
+          ? summarizeGraph({
+              type: data.type,
+              chartData: prepared.fullChartData,
+              datasets: prepared.validDatasets,
+              formatLabel: (point) =>
+                prepared.isTimeSeries ? formatTime(point.time) : point.name,
+              getFormatter: (dataset) =>
+                dataset.axis === "right" ? formatY2 : formatY,
+            })
+          : "",
+      [data, prepared, formatTime, formatY, formatY2],
+    );
+
     // If no data received yet, show loading
-    if (!data) {
+    if (!data || prepared.status === "empty") {
       return (
         <div
           ref={ref}
           className={cn(graphVariants({ variant, size }), className)}
+          aria-busy="true"
           {...props}
         >
           <div className="p-4 h-full flex items-center justify-center">
@@ -218,21 +1101,12 @@ export const Graph = React.forwardRef<HTMLDivElement, GraphProps>(
       );
     }
 
-    // Check if we have the minimum viable data structure
-    const hasValidStructure =
-      data.type &&
-      data.labels &&
-      data.datasets &&
-      Array.isArray(data.labels) &&
-      Array.isArray(data.datasets) &&
-      data.labels.length > 0 &&
-      data.datasets.length > 0;
-
-    if (!hasValidStructure) {
+    if (prepared.status === "building") {
       return (
         <div
           ref={ref}
           className={cn(graphVariants({ variant, size }), className)}
+          aria-busy="true"
           {...props}
         >
           <div className="p-4 h-full flex items-center justify-center">
@@ -244,20 +1118,12 @@ export const Graph = React.forwardRef<HTMLDivElement, GraphProps>(
       );
     }
 
-    // Filter datasets to only include those with valid data
-    const validDatasets = data.datasets.filter(
-      (dataset) =>
-        dataset.label &&
-        dataset.data &&
-        Array.isArray(dataset.data) &&
-        dataset.data.length > 0,
-    );
-
-    if (validDatasets.length === 0) {
+    if (prepared.status === "preparing") {
       return (
         <div
           ref={ref}
           className={cn(graphVariants({ variant, size }), className)}
+          aria-busy="true"
           {...props}
         >
           <div className="p-4 h-full flex items-center justify-center">
@@ -269,27 +1135,673 @@ export const Graph = React.forwardRef<HTMLDivElement, GraphProps>(
       );
     }
 
-    // Use the minimum length between labels and the shortest dataset
-    const maxDataPoints = Math.min(
-      data.labels.length,
-      Math.min(...validDatasets.map((d) => d.data.length)),
+    const {
+      isScatter,
+      validDatasets,
+      maxDataPoints,
+      isTimeSeries,
+      fullChartData,
+      chartData,
+      sourceIndices,
+    } = prepared;
+
+    const isDownsampled = chartData.length < fullChartData.length;
+    const countFormat = createNumberFormat(undefined, locale);
+
+    const showBrush = (brush ?? isTimeSeries) && chartData.length > 1;
+
+    // Clamp the stored range to the data we have, which may still be streaming
+    const lastIndex = chartData.length - 1;
+    const brushStartIndex = range
+      ? Math.min(Math.max(range.startIndex, 0), lastIndex)
+      : undefined;
+    const brushEndIndex = range
+      ? Math.min(Math.max(range.endIndex, brushStartIndex ?? 0), lastIndex)
+      : undefined;
+
+    // Recharts hands bars the brush-sliced data, so their click indices and
+    // cells are relative to the first visible point
+    const visibleStartIndex = showBrush ? (brushStartIndex ?? 0) : 0;
+    const visibleChartData = showBrush
+      ? chartData.slice(visibleStartIndex, (brushEndIndex ?? lastIndex) + 1)
+      : chartData;
+
+    const handleBrushChange = ({
+      startIndex,
+      endIndex,
+    }: {
+      startIndex?: number;
+      endIndex?: number;
+    }) => {
+      if (startIndex === undefined || endIndex === undefined) return;
+      if (startIndex === 0 && endIndex === lastIndex) {
+        setRange(null);
+        return;
+      }
+      setRange({
+        startIndex,
+        endIndex,
+        startLabel: chartData[startIndex]?.name ?? "",
+        endLabel: chartData[endIndex]?.name ?? "",
+      });
+    };
+
+    // Toggles the selection: clicking the selected point again clears it
+    const toggleSelection = (next: NonNullable<GraphSelectionState>) => {
+      const isSame =
+        selection?.label === next.label &&
+        selection?.dataset === next.dataset &&
+        selection?.value === next.value;
+      setSelection(isSame ? null : next);
+    };
+
+    const handleSelectIndex = (index: number, dataset?: GraphDataset) => {
+      const point = chartData[index];
+      if (!point) return;
+      toggleSelection({
+        label: point.name,
+        ...(dataset && {
+          dataset: dataset.label,
+          value: Number(point[dataset.label]),
+        }),
+      });
+    };
+
+    // Line, area, composed and radar charts select the whole column under
+    // the cursor rather than a single series
+    const handleChartClick = (state: RechartsCore.MouseHandlerDataParam) => {
+      const index = Number(state.activeTooltipIndex);
+      if (Number.isInteger(index)) {
+        handleSelectIndex(index);
+      }
+    };
+
+    const isSelectedLabel = (label: string) => selection?.label === label;
+
+    const getCellOpacity = (label: string, dataset?: string) =>
+      !selection ||
+      (isSelectedLabel(label) &&
+        (!selection.dataset || !dataset || selection.dataset === dataset))
+        ? 1
+        : 0.4;
+
+    const paletteColors = graphPalettes[palette] ?? graphPalettes.categorical;
+
+    const getColor = (dataset: GraphDataset, index: number) =>
+      dataset.color ?? paletteColors[index % paletteColors.length];
+
+    // Color of a single point, falling back to the dataset color
+    const getPointColor = (
+      dataset: GraphDataset,
+      datasetIndex: number,
+      pointIndex: number,
+    ) =>
+      dataset.colors?.[sourceIndices[pointIndex]] ??
+      getColor(dataset, datasetIndex);
+
+    const tooltipContentStyle = {
+      backgroundColor: "var(--popover)",
+      border: "1px solid var(--border)",
+      borderRadius: "var(--radius)",
+      color: "var(--popover-foreground)",
+    };
+
+    const legend = showLegend && (
+      <RechartsCore.Legend
+        wrapperStyle={{
+          color: "var(--foreground)",
+        }}
+      />
     );
 
-    // Transform data for Recharts using only available data points
-    const chartData = data.labels
-      .slice(0, maxDataPoints)
-      .map((label, index) => ({
-        name: label,
-        ...Object.fromEntries(
-          validDatasets.map((dataset) => [
-            dataset.label,
-            dataset.data[index] ?? 0,
-          ]),
+    const formatX = createValueFormatter(xAxis, locale);
+    const hasRightAxis =
+      !!y2Axis || validDatasets.some((dataset) => dataset.axis === "right");
+
+    // Formats tooltip values using the axis the dataset is plotted against
+    const formatTooltipValue = (value: unknown, name: unknown) => {
+      const dataset = validDatasets.find((d) => d.label === name);
+      return dataset?.axis === "right" ? formatY2(value) : formatY(value);
+    };
+
+    const getDatasetFormatter = (dataset: GraphDataset) =>
+      dataset.axis === "right" ? formatY2 : formatY;
+
+    // The selected value and the follow-up message use the axis the selected
+    // dataset is plotted against
+    const selectedDataset = validDatasets.find(
+      (dataset) => dataset.label === selection?.dataset,
+    );
+    const formatSelectionValue = selectedDataset
+      ? getDatasetFormatter(selectedDataset)
+      : formatY;
+
+    const formatPointLabel = (point: GraphChartDatum) =>
+      isTimeSeries ? formatTime(point.time) : point.name;
+
+    // Keyboard navigation walks the category points; scatter charts have no
+    // shared index across datasets, so they rely on the table view instead
+    const focusablePointCount = isScatter ? 0 : chartData.length;
+    const activeFocusedIndex =
+      focusedIndex !== null && focusedIndex < focusablePointCount
+        ? focusedIndex
+        : null;
+    const focusedPoint =
+      activeFocusedIndex !== null ? chartData[activeFocusedIndex] : undefined;
+    const focusAnnouncement = focusedPoint
+      ? `${formatPointLabel(focusedPoint)}: ${validDatasets
+          .map(
+            (dataset) =>
+              `${dataset.label} ${getDatasetFormatter(dataset)(focusedPoint[dataset.label])}`,
+          )
+          .join(", ")}`
+      : "";
+
+    // Forces the tooltip open on the keyboard-focused point
+    const focusTooltipProps =
+      activeFocusedIndex !== null
+        ? { active: true, defaultIndex: activeFocusedIndex }
+        : {};
+
+    const handleChartKeyDown = (event: React.KeyboardEvent<HTMLDivElement>) => {
+      if (focusablePointCount === 0) return;
+      const current = activeFocusedIndex ?? -1;
+      let next: number | null = null;
+
+      switch (event.key) {
+        case "ArrowRight":
+        case "ArrowDown":
+          next = Math.min(current + 1, focusablePointCount - 1);
+          break;
+        case "ArrowLeft":
+        case "ArrowUp":
+          next = Math.max(current - 1, 0);
+          break;
+        case "Home":
+          next = 0;
+          break;
+        case "End":
+          next = focusablePointCount - 1;
+          break;
+        case "Enter":
+        case " ":
+          if (activeFocusedIndex === null) return;
+          event.preventDefault();
+          handleSelectIndex(
+            activeFocusedIndex,
+            validDatasets.length === 1 || data.type === "pie"
+              ? validDatasets[0]
+              : undefined,
+          );
+          return;
+        case "Escape":
+          setFocusedIndex(null);
+          return;
+        default:
+          return;
+      }
+
+      event.preventDefault();
+      setFocusedIndex(next);
+    };
+
+    // Rows of the data table. Scatter charts list every point of every
+    // dataset; other charts list every label, including downsampled points.
+    // Rows are built on demand since only a window of them is rendered.
+    const tableRowCount = isScatter
+      ? validDatasets.reduce(
+          (count, dataset) => count + (dataset.points?.length ?? 0),
+          0,
+        )
+      : fullChartData.length;
+
+    const getTableRow = (
+      rowIndex: number,
+    ): {
+      key: string;
+      header: string;
+      cells: string[];
+      isSelected: boolean;
+    } => {
+      if (isScatter) {
+        let offset = rowIndex;
+        for (const dataset of validDatasets) {
+          const points = dataset.points ?? [];
+          if (offset < points.length) {
+            const point = points[offset];
+            return {
+              key: `${dataset.label}-${offset}`,
+              header: dataset.label,
+              cells: [formatX(point.x), formatY(point.y)],
+              isSelected: false,
+            };
+          }
+          offset -= points.length;
+        }
+      }
+      const point = fullChartData[rowIndex];
+      return {
+        key: `${point.name}-${rowIndex}`,
+        header: formatPointLabel(point),
+        cells: validDatasets.map((dataset) =>
+          getDatasetFormatter(dataset)(point[dataset.label]),
         ),
-      }));
+        isSelected: isSelectedLabel(point.name),
+      };
+    };
+
+    const tableColumns = isScatter
+      ? ["Dataset", xAxis?.label ?? "x", yAxis?.label ?? "y"]
+      : [xAxis?.label ?? "Label", ...validDatasets.map((d) => d.label)];
+
+    // Only the rows around the scroll position are rendered, with spacer rows
+    // standing in for the rest, so tables with thousands of rows stay fast
+    const firstTableRow = Math.max(
+      0,
+      Math.floor(tableScrollTop / TABLE_ROW_HEIGHT) - TABLE_OVERSCAN,
+    );
+    const lastTableRow = Math.min(
+      tableRowCount,
+      firstTableRow + TABLE_WINDOW_SIZE,
+    );
+
+    const renderTable = () => (
+      <table
+        className="w-full text-sm text-foreground"
+        aria-rowcount={tableRowCount + 1}
+      >
+        <caption className="sr-only">{title}</caption>
+        <thead className="sticky top-0 bg-background">
+          <tr
+            className="border-b border-border text-left text-muted-foreground"
+            aria-rowindex={1}
+          >
+            {tableColumns.map((column, index) => (
+              <th
+                key={`${column}-${index}`}
+                scope="col"
+                className={cn(
+                  "py-1 pr-4 font-medium",
+                  index > 0 && "text-right",
+                )}
+              >
+                {column}
+              </th>
+            ))}
+          </tr>
+        </thead>
+        <tbody>
+          {firstTableRow > 0 && (
+            <tr
+              aria-hidden="true"
+              style={{ height: firstTableRow * TABLE_ROW_HEIGHT }}
+            />
+          )}
+          {Array.from({ length: lastTableRow - firstTableRow }, (_, offset) =>
+            getTableRow(firstTableRow + offset),
+          ).map((row, offset) => (
+            <tr
+              key={row.key}
+              aria-rowindex={firstTableRow + offset + 2}
+              className={cn(
+                "border-b border-border last:border-0",
+                row.isSelected && "bg-muted",
+              )}
+              style={{ height: TABLE_ROW_HEIGHT }}
+            >
+              <th scope="row" className="py-1 pr-4 font-normal text-left">
+                {row.header}
+              </th>
+              {row.cells.map((cell, index) => (
+                <td
+                  key={`${tableColumns[index + 1]}-${index}`}
+                  className="py-1 pr-4 text-right tabular-nums"
+                >
+                  {cell}
+                </td>
+              ))}
+            </tr>
+          ))}
+          {lastTableRow < tableRowCount && (
+            <tr
+              aria-hidden="true"
+              style={{
+                height: (tableRowCount - lastTableRow) * TABLE_ROW_HEIGHT,
+              }}
+            />
+          )}
+        </tbody>
+      </table>
+    );
+
+    const renderYAxis = (
+      axisId: "left" | "right",
+      axis: GraphAxis | undefined,
+      formatter: (value: unknown) => string,
+      axisProps: Partial<RechartsCore.YAxisProps> = {},
+    ) => (
+      <RechartsCore.YAxis
+        yAxisId={axisId}
+        orientation={axisId}
+        stroke="var(--muted-foreground)"
+        axisLine={false}
+        tickLine={false}
+        tickFormatter={formatter}
+        domain={getAxisDomain(axis)}
+        scale={axis?.scale === "log" ? "log" : "auto"}
+        allowDataOverflow={axis?.min !== undefined || axis?.max !== undefined}
+        label={
+          axis?.label
+            ? {
+                value: axis.label,
+                angle: axisId === "left" ? -90 : 90,
+                position: axisId === "left" ? "insideLeft" : "insideRight",
+                style: {
+                  textAnchor: "middle",
+                  fill: "var(--muted-foreground)",
+                },
+              }
+            : undefined
+        }
+        {...axisProps}
+      />
+    );
+
+    // Maps an annotation x value onto the X axis: numbers on scatter charts,
+    // timestamps on time axes, and rendered labels on category axes
+    const resolveAnnotationX = (
+      x: string | number | undefined,
+    ): string | number | undefined => {
+      if (x === undefined) return undefined;
+      if (isScatter) {
+        const value = Number(x);
+        return Number.isFinite(value) ? value : undefined;
+      }
+      if (isTimeSeries) {
+        return typeof x === "number" && !YEAR_PATTERN.test(String(x))
+          ? x
+          : (parseTimeLabel(String(x)) ?? undefined);
+      }
+
+      const label = String(x);
+      if (chartData.some((point) => point.name === label)) return label;
+
+      // The label may have been dropped by downsampling, so snap to the
+      // closest rendered point
+      const labelIndex = data.labels.indexOf(label);
+      if (labelIndex === -1 || chartData.length === 0) return undefined;
+      let closest = 0;
+      sourceIndices.forEach((sourceIndex, position) => {
+        if (
+          Math.abs(sourceIndex - labelIndex) <
+          Math.abs(sourceIndices[closest] - labelIndex)
+        ) {
+          closest = position;
+        }
+      });
+      return chartData[closest].name;
+    };
+
+    const renderAnnotations = () =>
+      annotations?.map((annotation, index) => {
+        if (!annotation?.type) return null;
+        const key = `annotation-${index}`;
+        // Recharts cannot place an annotation on an axis that is not rendered,
+        // so fall back to the left axis when the chart has no right one
+        const yAxisId =
+          annotation.axis === "right" && hasRightAxis && !isScatter
+            ? "right"
+            : "left";
+        const color = annotation.color ?? "var(--foreground)";
+        const label = annotation.label
+          ? {
+              value: annotation.label,
+              fill: color,
+              fontSize: 12,
+            }
+          : undefined;
+        const x = resolveAnnotationX(annotation.x);
+
+        switch (annotation.type) {
+          case "verticalLine":
+            if (x === undefined) return null;
+            return (
+              <RechartsCore.ReferenceLine
+                key={key}
+                x={x}
+                yAxisId={yAxisId}
+                stroke={color}
+                strokeDasharray="4 4"
+                label={label && { ...label, position: "insideTopRight" }}
+              />
+            );
+          case "horizontalLine":
+            if (annotation.y === undefined) return null;
+            return (
+              <RechartsCore.ReferenceLine
+                key={key}
+                y={annotation.y}
+                yAxisId={yAxisId}
+                stroke={color}
+                strokeDasharray="4 4"
+                label={label && { ...label, position: "insideTopLeft" }}
+              />
+            );
+          case "area": {
+            const x2 = resolveAnnotationX(annotation.x2);
+            if (
+              x === undefined &&
+              x2 === undefined &&
+              annotation.y === undefined &&
+              annotation.y2 === undefined
+            ) {
+              return null;
+            }
+            return (
+              <RechartsCore.ReferenceArea
+                key={key}
+                x1={x}
+                x2={x2}
+                y1={annotation.y}
+                y2={annotation.y2}
+                yAxisId={yAxisId}
+                fill={annotation.color ?? "var(--muted-foreground)"}
+                fillOpacity={0.15}
+                stroke="none"
+                label={label && { ...label, position: "insideTop" }}
+              />
+            );
+          }
+          case "point":
+            if (x === undefined || annotation.y === undefined) return null;
+            return (
+              <RechartsCore.ReferenceDot
+                key={key}
+                x={x}
+                y={annotation.y}
+                yAxisId={yAxisId}
+                r={4}
+                fill={color}
+                stroke="var(--background)"
+                label={label && { ...label, position: "top" }}
+              />
+            );
+          default:
+            return null;
+        }
+      });
+
+    // Grid, axes, tooltip and legend shared by every cartesian chart type
+    const renderCartesianChrome = (cursor: "fill" | "stroke") => (
+      <>
+        <RechartsCore.CartesianGrid
+          strokeDasharray="3 3"
+          vertical={false}
+          stroke="var(--border)"
+          yAxisId="left"
+        />
+        <RechartsCore.XAxis
+          {...(isTimeSeries
+            ? {
+                dataKey: "time",
+                type: "number",
+                scale: "time",
+                domain: ["dataMin", "dataMax"],
+                tickFormatter: formatTime,
+              }
+            : { dataKey: "name" })}
+          stroke="var(--muted-foreground)"
+          axisLine={false}
+          tickLine={false}
+          label={
+            xAxis?.label
+              ? {
+                  value: xAxis.label,
+                  position: "insideBottom",
+                  offset: -4,
+                  fill: "var(--muted-foreground)",
+                }
+              : undefined
+          }
+        />
+        {renderYAxis("left", yAxis, formatY)}
+        {hasRightAxis && renderYAxis("right", y2Axis ?? yAxis, formatY2)}
+        <RechartsCore.Tooltip
+          {...focusTooltipProps}
+          cursor={
+            cursor === "fill"
+              ? {
+                  fill: "var(--muted-foreground)",
+                  fillOpacity: 0.1,
+                  radius: 4,
+                }
+              : {
+                  stroke: "var(--muted)",
+                  strokeWidth: 2,
+                  strokeOpacity: 0.3,
+                }
+          }
+          contentStyle={tooltipContentStyle}
+          formatter={(value, name) => formatTooltipValue(value, name)}
+          labelFormatter={isTimeSeries ? formatTime : undefined}
+        />
+        {legend}
+        {renderAnnotations()}
+        {selection && !selection.dataset && (
+          <RechartsCore.ReferenceLine
+            x={
+              isTimeSeries
+                ? chartData.find((point) => point.name === selection.label)
+                    ?.time
+                : selection.label
+            }
+            yAxisId="left"
+            stroke="var(--foreground)"
+            strokeDasharray="3 3"
+          />
+        )}
+        {showBrush && (
+          <RechartsCore.Brush
+            dataKey="name"
+            height={20}
+            stroke="var(--muted-foreground)"
+            fill="var(--background)"
+            travellerWidth={8}
+            startIndex={brushStartIndex}
+            endIndex={brushEndIndex}
+            onChange={handleBrushChange}
+          />
+        )}
+      </>
+    );
+
+    const renderBar = (
+      dataset: GraphDataset,
+      index: number,
+      stackId?: string,
+      selectByChart = false,
+    ) => (
+      <RechartsCore.Bar
+        key={dataset.label}
+        dataKey={dataset.label}
+        fill={getColor(dataset, index)}
+        stackId={stackId}
+        yAxisId={dataset.axis ?? "left"}
+        radius={stackId ? 0 : [4, 4, 0, 0]}
+        cursor="pointer"
+        onClick={
+          selectByChart
+            ? undefined
+            : (_, pointIndex) =>
+                handleSelectIndex(visibleStartIndex + pointIndex, dataset)
+        }
+      >
+        {(selection || dataset.colors) &&
+          visibleChartData.map((point, pointIndex) => (
+            <RechartsCore.Cell
+              key={`${point.name}-${visibleStartIndex + pointIndex}`}
+              fill={getPointColor(
+                dataset,
+                index,
+                visibleStartIndex + pointIndex,
+              )}
+              fillOpacity={getCellOpacity(
+                point.name,
+                selectByChart ? undefined : dataset.label,
+              )}
+            />
+          ))}
+      </RechartsCore.Bar>
+    );
+
+    const renderLine = (dataset: GraphDataset, index: number) => (
+      <RechartsCore.Line
+        key={dataset.label}
+        type="monotone"
+        dataKey={dataset.label}
+        stroke={getColor(dataset, index)}
+        yAxisId={dataset.axis ?? "left"}
+        dot={false}
+      />
+    );
+
+    const renderArea = (
+      dataset: GraphDataset,
+      index: number,
+      stackId?: string,
+    ) => (
+      <RechartsCore.Area
+        key={dataset.label}
+        type="monotone"
+        dataKey={dataset.label}
+        stroke={getColor(dataset, index)}
+        fill={getColor(dataset, index)}
+        fillOpacity={0.2}
+        stackId={stackId}
+        yAxisId={dataset.axis ?? "left"}
+      />
+    );
+
+    // Shaded [lower, upper] band drawn behind a line or area series
+    const renderBand = (dataset: GraphDataset, index: number) =>
+      dataset.lower &&
+      dataset.upper && (
+        <RechartsCore.Area
+          key={`${dataset.label}${BAND_KEY_SUFFIX}`}
+          type="monotone"
+          dataKey={`${dataset.label}${BAND_KEY_SUFFIX}`}
+          stroke="none"
+          fill={getColor(dataset, index)}
+          fillOpacity={0.15}
+          yAxisId={dataset.axis ?? "left"}
+          legendType="none"
+          tooltipType="none"
+          isAnimationActive={false}
+        />
+      );
 
     const renderChart = () => {
-      if (!["bar", "line", "pie"].includes(data.type)) {
+      if (!graphTypes.includes(data.type)) {
         return (
           <div className="h-full flex items-center justify-center">
             <div className="text-muted-foreground text-center">
@@ -302,107 +1814,210 @@ export const Graph = React.forwardRef<HTMLDivElement, GraphProps>(
       switch (data.type) {
         case "bar":
           return (
-            <RechartsCore.BarChart data={chartData}>
+            <RechartsCore.BarChart data={chartData} accessibilityLayer={false}>
+              {renderCartesianChrome("fill")}
+              {validDatasets.map((dataset, index) => renderBar(dataset, index))}
+            </RechartsCore.BarChart>
+          );
+
+        case "stackedBar":
+          return (
+            <RechartsCore.BarChart data={chartData} accessibilityLayer={false}>
+              {renderCartesianChrome("fill")}
+              {validDatasets.map((dataset, index) =>
+                renderBar(dataset, index, dataset.stackId ?? "stack"),
+              )}
+            </RechartsCore.BarChart>
+          );
+
+        case "line":
+          return (
+            <RechartsCore.LineChart
+              accessibilityLayer={false}
+              data={chartData}
+              onClick={handleChartClick}
+              className="cursor-pointer"
+            >
+              {renderCartesianChrome("stroke")}
+              {validDatasets.map(renderBand)}
+              {validDatasets.map((dataset, index) =>
+                renderLine(dataset, index),
+              )}
+            </RechartsCore.LineChart>
+          );
+
+        case "area":
+          return (
+            <RechartsCore.AreaChart
+              accessibilityLayer={false}
+              data={chartData}
+              onClick={handleChartClick}
+              className="cursor-pointer"
+            >
+              {renderCartesianChrome("stroke")}
+              {validDatasets.map(renderBand)}
+              {validDatasets.map((dataset, index) =>
+                renderArea(dataset, index),
+              )}
+            </RechartsCore.AreaChart>
+          );
+
+        case "stackedArea":
+          return (
+            <RechartsCore.AreaChart
+              accessibilityLayer={false}
+              data={chartData}
+              onClick={handleChartClick}
+              className="cursor-pointer"
+            >
+              {renderCartesianChrome("stroke")}
+              {validDatasets.map((dataset, index) =>
+                renderArea(dataset, index, dataset.stackId ?? "stack"),
+              )}
+            </RechartsCore.AreaChart>
+          );
+
+        case "composed":
+          return (
+            <RechartsCore.ComposedChart
+              accessibilityLayer={false}
+              data={chartData}
+              onClick={handleChartClick}
+              className="cursor-pointer"
+            >
+              {renderCartesianChrome("fill")}
+              {validDatasets.map((dataset, index) =>
+                (dataset.seriesType ?? (index === 0 ? "bar" : "line")) !== "bar"
+                  ? renderBand(dataset, index)
+                  : null,
+              )}
+              {validDatasets.map((dataset, index) => {
+                const seriesType =
+                  dataset.seriesType ?? (index === 0 ? "bar" : "line");
+                switch (seriesType) {
+                  case "bar":
+                    return renderBar(dataset, index, undefined, true);
+                  case "area":
+                    return renderArea(dataset, index);
+                  case "line":
+                    return renderLine(dataset, index);
+                }
+              })}
+            </RechartsCore.ComposedChart>
+          );
+
+        case "scatter":
+          return (
+            <RechartsCore.ScatterChart accessibilityLayer={false}>
               <RechartsCore.CartesianGrid
                 strokeDasharray="3 3"
-                vertical={false}
                 stroke="var(--border)"
+                yAxisId="left"
               />
               <RechartsCore.XAxis
-                dataKey="name"
-                stroke="var(--muted-foreground)"
-                axisLine={false}
-                tickLine={false}
-              />
-              <RechartsCore.YAxis
+                type="number"
+                dataKey="x"
+                name={xAxis?.label ?? "x"}
                 stroke="var(--muted-foreground)"
                 axisLine={false}
                 tickLine={false}
+                tickFormatter={formatX}
+                domain={getAxisDomain(xAxis)}
+                scale={xAxis?.scale === "log" ? "log" : "auto"}
+                allowDataOverflow={
+                  xAxis?.min !== undefined || xAxis?.max !== undefined
+                }
+                label={
+                  xAxis?.label
+                    ? {
+                        value: xAxis.label,
+                        position: "insideBottom",
+                        offset: -4,
+                        fill: "var(--muted-foreground)",
+                      }
+                    : undefined
+                }
               />
+              {renderYAxis("left", yAxis, formatY, {
+                type: "number",
+                dataKey: "y",
+                name: yAxis?.label ?? "y",
+              })}
               <RechartsCore.Tooltip
-                cursor={{
-                  fill: "var(--muted-foreground)",
-                  fillOpacity: 0.1,
-                  radius: 4,
-                }}
-                contentStyle={{
-                  backgroundColor: "white",
-                  border: "1px solid #e5e7eb",
-                  borderRadius: "var(--radius)",
-                  color: "var(--foreground)",
-                }}
+                cursor={{ strokeDasharray: "3 3" }}
+                contentStyle={tooltipContentStyle}
+                formatter={(value, _name, item) =>
+                  item.dataKey === "x" ? formatX(value) : formatY(value)
+                }
               />
-              {showLegend && (
-                <RechartsCore.Legend
-                  wrapperStyle={{
-                    color: "var(--foreground)",
-                  }}
-                />
-              )}
+              {legend}
+              {renderAnnotations()}
               {validDatasets.map((dataset, index) => (
-                <RechartsCore.Bar
+                <RechartsCore.Scatter
                   key={dataset.label}
-                  dataKey={dataset.label}
-                  fill={
-                    dataset.color ?? defaultColors[index % defaultColors.length]
-                  }
-                  radius={[4, 4, 0, 0]}
-                />
+                  name={dataset.label}
+                  data={dataset.points}
+                  fill={getColor(dataset, index)}
+                  yAxisId="left"
+                  cursor="pointer"
+                  onClick={(point: { x?: number; y?: number }) => {
+                    if (point.x === undefined || point.y === undefined) return;
+                    toggleSelection({
+                      label: `(${formatX(point.x)}, ${formatY(point.y)})`,
+                      dataset: dataset.label,
+                      value: point.y,
+                    });
+                  }}
+                >
+                  {dataset.points?.some((point) => point.color) &&
+                    dataset.points.map((point, pointIndex) => (
+                      <RechartsCore.Cell
+                        key={pointIndex}
+                        fill={point.color ?? getColor(dataset, index)}
+                      />
+                    ))}
+                </RechartsCore.Scatter>
               ))}
-            </RechartsCore.BarChart>
+            </RechartsCore.ScatterChart>
           );
 
-        case "line":
+        case "radar":
           return (
-            <RechartsCore.LineChart data={chartData}>
-              <RechartsCore.CartesianGrid
-                strokeDasharray="3 3"
-                vertical={false}
-                stroke="var(--border)"
-              />
-              <RechartsCore.XAxis
+            <RechartsCore.RadarChart
+              accessibilityLayer={false}
+              data={chartData}
+              outerRadius="70%"
+              onClick={handleChartClick}
+              className="cursor-pointer"
+            >
+              <RechartsCore.PolarGrid stroke="var(--border)" />
+              <RechartsCore.PolarAngleAxis
                 dataKey="name"
                 stroke="var(--muted-foreground)"
-                axisLine={false}
-                tickLine={false}
               />
-              <RechartsCore.YAxis
+              <RechartsCore.PolarRadiusAxis
                 stroke="var(--muted-foreground)"
                 axisLine={false}
-                tickLine={false}
+                tickFormatter={formatY}
+                domain={getAxisDomain(yAxis)}
               />
               <RechartsCore.Tooltip
-                cursor={{
-                  stroke: "var(--muted)",
-                  strokeWidth: 2,
-                  strokeOpacity: 0.3,
-                }}
-                contentStyle={{
-                  backgroundColor: "white",
-                  border: "1px solid #e5e7eb",
-                  borderRadius: "var(--radius)",
-                  color: "var(--foreground)",
-                }}
+                {...focusTooltipProps}
+                contentStyle={tooltipContentStyle}
+                formatter={(value) => formatY(value)}
               />
-              {showLegend && (
-                <RechartsCore.Legend
-                  wrapperStyle={{
-                    color: "var(--foreground)",
-                  }}
-                />
-              )}
+              {legend}
               {validDatasets.map((dataset, index) => (
-                <RechartsCore.Line
+                <RechartsCore.Radar
                   key={dataset.label}
-                  type="monotone"
+                  name={dataset.label}
                   dataKey={dataset.label}
-                  stroke={
-                    dataset.color ?? defaultColors[index % defaultColors.length]
-                  }
-                  dot={false}
+                  stroke={getColor(dataset, index)}
+                  fill={getColor(dataset, index)}
+                  fillOpacity={0.3}
                 />
               ))}
-            </RechartsCore.LineChart>
+            </RechartsCore.RadarChart>
           );
 
         case "pie": {
@@ -419,14 +2034,19 @@ export const Graph = React.forwardRef<HTMLDivElement, GraphProps>(
           }
 
           return (
-            <RechartsCore.PieChart>
+            <RechartsCore.PieChart accessibilityLayer={false}>
               <RechartsCore.Pie
                 data={pieDataset.data
                   .slice(0, maxDataPoints)
                   .map((value, index) => ({
                     name: data.labels[index],
                     value,
-                    fill: defaultColors[index % defaultColors.length],
+                    fill:
+                      pieDataset.colors?.[index] ??
+                      (pieDataset.color
+                        ? shadeColor(pieDataset.color, index, maxDataPoints)
+                        : paletteColors[index % paletteColors.length]),
+                    fillOpacity: getCellOpacity(data.labels[index]),
                   }))}
                 dataKey="value"
                 nameKey="name"
@@ -434,16 +2054,25 @@ export const Graph = React.forwardRef<HTMLDivElement, GraphProps>(
                 cy="50%"
                 labelLine={false}
                 outerRadius={80}
-                fill="#8884d8"
+                stroke="var(--background)"
+                cursor="pointer"
+                onClick={(_, index) => {
+                  const label = data.labels[index];
+                  if (label === undefined) return;
+                  toggleSelection({
+                    label,
+                    dataset: pieDataset.label,
+                    value: pieDataset.data[index],
+                  });
+                }}
               />
               <RechartsCore.Tooltip
+                {...focusTooltipProps}
                 contentStyle={{
-                  backgroundColor: "white",
-                  border: "1px solid #e5e7eb",
-                  borderRadius: "var(--radius)",
-                  color: "var(--foreground)",
+                  ...tooltipContentStyle,
                   boxShadow: "0 2px 4px rgba(0,0,0,0.1)",
                 }}
+                formatter={(value) => formatY(value)}
                 itemStyle={{
                   color: "var(--foreground)",
                 }}
@@ -451,13 +2080,7 @@ export const Graph = React.forwardRef<HTMLDivElement, GraphProps>(
                   color: "var(--foreground)",
                 }}
               />
-              {showLegend && (
-                <RechartsCore.Legend
-                  wrapperStyle={{
-                    color: "var(--foreground)",
-                  }}
-                />
-              )}
+              {legend}
             </RechartsCore.PieChart>
           );
         }
@@ -469,19 +2092,108 @@ export const Graph = React.forwardRef<HTMLDivElement, GraphProps>(
         <div
           ref={ref}
           className={cn(graphVariants({ variant, size }), className)}
+          data-slot="graph"
           {...props}
         >
           <div className="p-4 h-full">
-            {title && (
-              <h3 className="text-lg font-medium mb-4 text-foreground">
-                {title}
-              </h3>
-            )}
-            <div className="w-full h-[calc(100%-2rem)]">
-              <RechartsCore.ResponsiveContainer width="100%" height="100%">
-                {renderChart()}
-              </RechartsCore.ResponsiveContainer>
+            <div className="flex items-start justify-between gap-2 mb-4">
+              <div className="flex items-baseline gap-2 min-w-0">
+                <h3 className="text-lg font-medium text-foreground">{title}</h3>
+                {isDownsampled && (
+                  <span
+                    className="text-xs text-muted-foreground whitespace-nowrap"
+                    data-slot="graph-downsample-indicator"
+                  >
+                    Showing {countFormat.format(chartData.length)} of{" "}
+                    {countFormat.format(fullChartData.length)} points
+                  </span>
+                )}
+              </div>
+              <div className="flex items-center gap-1 min-w-0">
+                {selection && (
+                  <GraphSelectionBar
+                    selection={selection}
+                    formatValue={formatSelectionValue}
+                    onClear={() => setSelection(null)}
+                    onAsk={
+                      allowFollowUp
+                        ? () =>
+                            sendFollowUp(
+                              buildFollowUpMessage(
+                                followUpTemplate,
+                                selection,
+                                formatSelectionValue,
+                              ),
+                            )
+                        : undefined
+                    }
+                    isAskDisabled={isFollowUpDisabled}
+                  />
+                )}
+                <button
+                  type="button"
+                  className="w-7 h-7 rounded-md text-muted-foreground transition-colors hover:bg-muted hover:text-foreground flex items-center justify-center focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring"
+                  onClick={() =>
+                    setView((current) =>
+                      current === "chart" ? "table" : "chart",
+                    )
+                  }
+                  aria-label={
+                    view === "chart" ? "Show data table" : "Show chart"
+                  }
+                  aria-pressed={view === "table"}
+                  data-slot="graph-view-toggle"
+                >
+                  {view === "chart" ? (
+                    <Table className="w-4 h-4" />
+                  ) : (
+                    <ChartColumn className="w-4 h-4" />
+                  )}
+                </button>
+                <GraphExportMenu
+                  canExportImage={view === "chart"}
+                  onExportSvg={exportSvg}
+                  onExportPng={() => {
+                    exportPng().catch((error: unknown) => {
+                      console.error("Error exporting chart:", error);
+                    });
+                  }}
+                  onExportCsv={exportCsv}
+                />
+              </div>
             </div>
+            <p id={summaryId} className="sr-only">
+              {summary}
+            </p>
+            {view === "table" ? (
+              <div
+                className="w-full h-[calc(100%-2rem)] overflow-auto"
+                onScroll={(event) =>
+                  setTableScrollTop(event.currentTarget.scrollTop)
+                }
+              >
+                {renderTable()}
+              </div>
+            ) : (
+              <div
+                ref={containerRef}
+                className="w-full h-[calc(100%-2rem)] rounded-md focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring"
+                role="group"
+                aria-roledescription="chart"
+                aria-label={title}
+                aria-describedby={summaryId}
+                tabIndex={0}
+                onKeyDown={handleChartKeyDown}
+                onBlur={() => setFocusedIndex(null)}
+              >
+                <RechartsCore.ResponsiveContainer width="100%" height="100%">
+                  {renderChart()}
+                </RechartsCore.ResponsiveContainer>
+                <span className="sr-only" aria-live="polite">
+                  {focusAnnouncement}
+                </span>
+              </div>
+            )}
           </div>
         </div>
       </GraphErrorBoundary>
@@ -1,6 +1,10 @@
 "use client";
 
-import { TamboThreadMessage } from "@tambo-ai/react";
+import {
+  TamboThreadInputProvider,
+  TamboThreadMessage,
+  useTambo,
+} from "@tambo-ai/react";
 import {
   Message as MessageBase,
   type MessageContentProps as MessageBaseContentProps,
@@ -18,9 +22,23 @@ import {
   ToolcallInfo as ToolcallInfoBase,
   type ToolcallInfoRootProps as ToolcallInfoBaseRootProps,
 } from "@tambo-ai/react-ui-base/toolcall-info";
+import {
+  alwaysAllowToolCall,
+  approveToolCall,
+  denyToolCall,
+  useToolConfirmationRequests,
+  type ToolConfirmationRequest,
+} from "@/lib/tool-confirmation";
 import { cn } from "@/lib/utils";
 import { cva, type VariantProps } from "class-variance-authority";
-import { Check, ChevronDown, ExternalLink, Loader2, X } from "lucide-react";
+import {
+  Check,
+  ChevronDown,
+  ExternalLink,
+  Loader2,
+  ShieldAlert,
+  X,
+} from "lucide-react";
 import * as React from "react";
 import { Streamdown } from "streamdown";
 import { getSafeContent } from "../../lib/thread-hooks";
@@ -265,7 +283,7 @@ MessageContent.displayName = "MessageContent";
  */
 export interface ToolcallInfoProps extends Omit<
   ToolcallInfoBaseRootProps,
-  "children" | "message"
+  "children"
 > {
   /** Optional flag to render response content as Markdown. Default is true. */
   markdown?: boolean;
@@ -360,6 +378,75 @@ function ToolcallInfoContent({ markdown }: { markdown: boolean }) {
   );
 }
 
+const riskBadgeClassName = cva("rounded-full px-2 py-0.5 font-medium", {
+  variants: {
+    riskLevel: {
+      low: "bg-muted text-muted-foreground",
+      medium: "bg-amber-50 text-amber-700",
+      high: "bg-red-50 text-red-700",
+    },
+  },
+});
+
+/**
+ * Asks the user to approve a tool call before it runs.
+ * "Always allow" is offered for tools that are not high risk.
+ */
+function ToolcallConfirmation({
+  request,
+  threadId,
+}: {
+  request: ToolConfirmationRequest;
+  threadId: string | undefined;
+}) {
+  const titleId = React.useId();
+  return (
+    <div
+      role="group"
+      aria-labelledby={titleId}
+      className="flex flex-col gap-2 my-1 p-3 w-full max-w-md rounded-md border border-border bg-background text-foreground"
+    >
+      <div className="flex items-center gap-2">
+        <ShieldAlert className="h-3.5 w-3.5 shrink-0" />
+        <span id={titleId} className="font-medium">
+          Allow {request.toolTitle} to run?
+        </span>
+        <span className={riskBadgeClassName({ riskLevel: request.riskLevel })}>
+          {request.riskLevel} risk
+        </span>
+      </div>
+      <pre className="max-h-40 overflow-auto whitespace-pre-wrap text-muted-foreground">
+        {JSON.stringify(request.input, null, 2)}
+      </pre>
+      <div className="flex flex-wrap gap-2">
+        <button
+          type="button"
+          onClick={() => approveToolCall(request.id)}
+          className="rounded-md bg-foreground px-2 py-1 text-background hover:bg-foreground/90 cursor-pointer"
+        >
+          Approve
+        </button>
+        <button
+          type="button"
+          onClick={() => denyToolCall(request.id)}
+          className="rounded-md border border-border px-2 py-1 hover:bg-muted cursor-pointer"
+        >
+          Deny
+        </button>
+        {request.riskLevel !== "high" && threadId && (
+          <button
+            type="button"
+            onClick={() => alwaysAllowToolCall(request.id, threadId)}
+            className="rounded-md px-2 py-1 text-muted-foreground hover:bg-muted cursor-pointer"
+          >
+            Always allow in this thread
+          </button>
+        )}
+      </div>
+    </div>
+  );
+}
+
 type ToolcallInfoTriggerProps = React.ComponentProps<
   typeof ToolcallInfoBase.Trigger
 >;
@@ -384,16 +471,23 @@ ToolcallInfoTrigger.displayName = "ToolcallInfoTrigger";
 
 /**
  * Displays tool call information in a collapsible dropdown.
- * Shows tool name, parameters, and associated tool response.
+ * Shows tool name, parameters, and associated tool response. When the message
+ * is passed in, calls waiting for the user's confirmation show an
+ * approve/deny card.
  * @component ToolcallInfo
  */
 const ToolcallInfo = React.forwardRef<HTMLDivElement, ToolcallInfoProps>(
-  ({ className, markdown = true, ...props }, ref) => {
+  ({ className, markdown = true, message, ...props }, ref) => {
+    const { currentThreadId } = useTambo();
+    const confirmations = useToolConfirmationRequests(message, currentThreadId);
+
     return (
       <ToolcallInfoBase.Root
         ref={ref}
+        message={message}
         className={cn(
-          "flex flex-col items-start text-xs opacity-50",
+          "flex flex-col items-start text-xs",
+          confirmations.length === 0 && "opacity-50",
           className,
         )}
         {...props}
@@ -404,6 +498,13 @@ const ToolcallInfo = React.forwardRef<HTMLDivElement, ToolcallInfoProps>(
             <ToolcallInfoBase.StatusText />
             <ChevronDown className="h-3 w-3 transition-transform duration-200 group-data-[state=closed]/trigger:-rotate-90" />
           </ToolcallInfoTrigger>
+          {confirmations.map((request) => (
+            <ToolcallConfirmation
+              key={request.id}
+              request={request}
+              threadId={currentThreadId}
+            />
+          ))}
           <ToolcallInfoContent markdown={markdown} />
         </div>
       </ToolcallInfoBase.Root>
@@ -762,6 +863,7 @@ export type MessageRenderedComponentAreaProps = Omit<
  * Displays the `renderedComponent` associated with an assistant message.
  * Shows a button to view in canvas if a canvas space exists, otherwise renders inline.
  * Only renders if the message role is 'assistant' and `message.renderedComponent` exists.
+ * The component is rendered inside its own thread input for `useSendThreadMessage`.
  */
 const MessageRenderedComponentArea = React.forwardRef<
   HTMLDivElement,
@@ -779,7 +881,11 @@ const MessageRenderedComponentArea = React.forwardRef<
           <ExternalLink className="w-3.5 h-3.5" />
         </MessageBase.RenderedComponentCanvasButton>
       </div>
-      <MessageBase.RenderedComponentContent className="w-full pt-2 px-2" />
+      {/* Components get an input of their own, so messages they send never
+          touch the user's draft or staged images */}
+      <TamboThreadInputProvider>
+        <MessageBase.RenderedComponentContent className="w-full pt-2 px-2" />
+      </TamboThreadInputProvider>
     </MessageBase.RenderedComponent>
   );
 });
@@ -795,5 +901,6 @@ export {
   MessageRenderedComponentArea,
   messageVariants,
   ReasoningInfo,
+  ToolcallConfirmation,
   ToolcallInfo,
 };
@@ -6,9 +6,14 @@ import {
   MessageImages,
   MessageRenderedComponentArea,
   ReasoningInfo,
+  ToolcallConfirmation,
   ToolcallInfo,
   type messageVariants,
 } from "@/components/tambo/message";
+import {
+  useToolConfirmationScope,
+  useUnmatchedToolConfirmationRequests,
+} from "@/lib/tool-confirmation";
 import { cn } from "@/lib/utils";
 import { type TamboThreadMessage, useTambo } from "@tambo-ai/react";
 import { type VariantProps } from "class-variance-authority";
@@ -74,8 +79,10 @@ export interface ThreadContentProps extends React.HTMLAttributes<HTMLDivElement>
  */
 const ThreadContent = React.forwardRef<HTMLDivElement, ThreadContentProps>(
   ({ children, className, variant, ...props }, ref) => {
-    const { messages, isIdle } = useTambo();
+    const { messages, isIdle, currentThreadId } = useTambo();
     const isGenerating = !isIdle;
+    // Tool calls that need confirmation are asked in the thread shown here
+    useToolConfirmationScope(currentThreadId);
 
     const contextValue = React.useMemo(
       () => ({
@@ -124,6 +131,12 @@ const ThreadContentMessages = React.forwardRef<
   ThreadContentMessagesProps
 >(({ className, ...props }, ref) => {
   const { messages, isGenerating, variant } = useThreadContentContext();
+  const { currentThreadId } = useTambo();
+  // Calls made outside the model's tool calls, e.g. by a component action
+  const unmatchedConfirmations = useUnmatchedToolConfirmationRequests(
+    messages,
+    currentThreadId,
+  );
 
   const filteredMessages = messages.filter((message) => {
     if (message.role === "system") return false;
@@ -180,13 +193,22 @@ const ThreadContentMessages = React.forwardRef<
                       : "text-foreground bg-container hover:bg-backdrop font-sans"
                   }
                 />
-                <ToolcallInfo />
+                <ToolcallInfo message={message} />
                 <MessageRenderedComponentArea className="w-full" />
               </div>
             </Message>
           </div>
         );
       })}
+      {unmatchedConfirmations.map((request) => (
+        <div
+          key={request.id}
+          data-slot="thread-content-item"
+          className="flex justify-start text-xs"
+        >
+          <ToolcallConfirmation request={request} threadId={currentThreadId} />
+        </div>
+      ))}
     </div>
   );
 });
@@ -1,8 +1,38 @@
+import { useSendThreadMessage } from "@/lib/thread-hooks";
 import { cn } from "@/lib/utils";
-import { useTamboComponentState } from "@tambo-ai/react";
+import { asZodSchema, formatZodIssues } from "@/lib/zod-schema";
+import { useTambo, useTamboComponentState } from "@tambo-ai/react";
 import * as React from "react";
 import { z } from "zod";
-import { Check } from "lucide-react";
+import {
+  Check,
+  ChevronDown,
+  ChevronLeft,
+  ChevronRight,
+  Loader2,
+  Search,
+} from "lucide-react";
+
+// Status badge shown next to a card's label
+export type DataCardBadge = {
+  label: string;
+  tone?: "neutral" | "info" | "success" | "warning" | "danger";
+};
+
+// Key/value row shown under a card's description
+export type DataCardMetadata = {
+  label: string;
+  value: string;
+};
+
+// Button on a card that either calls a registered tool or sends a message
+export type DataCardAction = {
+  label: string;
+  type: "tool" | "message";
+  toolName?: string;
+  toolInput?: Record<string, unknown>;
+  message?: string;
+};
 
 // Define option type for individual options in the multi-select
 export type DataCardItem = {
@@ -11,16 +41,206 @@ export type DataCardItem = {
   value: string;
   description?: string;
   url?: string;
+  group?: string;
+  imageUrl?: string;
+  imageAlt?: string;
+  badges?: DataCardBadge[];
+  metadata?: DataCardMetadata[];
+  actions?: DataCardAction[];
+};
+
+// Outcome of the last card action, so the assistant can follow up on it
+export type DataCardActionResult = {
+  optionId: string;
+  action: string;
+  status: "success" | "error";
+  result?: unknown;
+  error?: string;
+};
+
+// Sort order applied to the options, in addition to the filter
+export type DataCardSort = {
+  by: "label" | "value";
+  order: "asc" | "desc";
 };
 
 // Define the component state type
 export type DataCardState = {
   selectedValues: string[];
+  // Set once the selection has been sent back with the submit button
+  submitted?: boolean;
+  // What the user is currently looking at, shared with the assistant
+  filter?: string;
+  sort?: DataCardSort | null;
+  page?: number;
+  collapsedGroups?: string[];
+  lastAction?: DataCardActionResult;
 };
 
+// Page size used when the assistant doesn't set one
+const DEFAULT_PAGE_SIZE = 20;
+
+// Filter and sort controls only show up for lists longer than this
+const CONTROLS_THRESHOLD = 8;
+
+// Group header for options without a group, when others have one
+const UNGROUPED_LABEL = "Other";
+
+// Tailwind classes for each badge tone
+const BADGE_TONE_CLASSES: Record<NonNullable<DataCardBadge["tone"]>, string> = {
+  neutral: "bg-gray-100 text-gray-700",
+  info: "bg-blue-50 text-blue-700",
+  success: "bg-green-50 text-green-700",
+  warning: "bg-amber-50 text-amber-700",
+  danger: "bg-red-50 text-red-700",
+};
+
+// Replace {id}, {label}, {value} and {result} in an action message
+function fillActionTemplate(
+  template: string,
+  card: DataCardItem,
+  result?: unknown,
+): string {
+  return template
+    .replace(/\{id\}/g, card.id)
+    .replace(/\{label\}/g, card.label)
+    .replace(/\{value\}/g, card.value)
+    .replace(/\{result\}/g, () =>
+      typeof result === "string" ? result : (JSON.stringify(result) ?? ""),
+    );
+}
+
+// A row in the rendered list: either a group header or an option
+type DataCardRow =
+  | { type: "group"; group: string; count: number; collapsed: boolean }
+  | { type: "option"; option: DataCardItem; index: number };
+
+const SORT_OPTIONS: { value: string; label: string }[] = [
+  { value: "", label: "Original order" },
+  { value: "label-asc", label: "Label A–Z" },
+  { value: "label-desc", label: "Label Z–A" },
+  { value: "value-asc", label: "Value ascending" },
+  { value: "value-desc", label: "Value descending" },
+];
+
+// Default message sent by the submit button
+const DEFAULT_SUBMIT_TEMPLATE = "I picked: {labels}";
+
+// State key used before cards had per-instance keys. Threads created back
+// then store every card's selection under this single key.
+const LEGACY_STATE_KEY = "data-card";
+
+// Hash a string into a short, stable identifier (djb2)
+function hashString(value: string): string {
+  let hash = 5381;
+  for (let i = 0; i < value.length; i++) {
+    hash = ((hash << 5) + hash + value.charCodeAt(i)) | 0;
+  }
+  return (hash >>> 0).toString(36);
+}
+
+// Derive a state key unique to this card, so multiple cards in a thread
+// don't share their selection
+function getDataCardStateKey(
+  title: string | undefined,
+  options: { id?: string }[] | undefined,
+  stateKey: string | undefined,
+): string {
+  if (stateKey) return `${LEGACY_STATE_KEY}-${stateKey}`;
+  const source = [title ?? "", ...(options ?? []).map((o) => o?.id ?? "")];
+  return `${LEGACY_STATE_KEY}-${hashString(source.join("|"))}`;
+}
+
+// Apply the filter and sort to the options, keeping each option's original
+// index for stable keys
+function getVisibleOptions(
+  options: DataCardItem[],
+  filter: string,
+  sort: DataCardSort | null | undefined,
+): { option: DataCardItem; index: number }[] {
+  const query = filter.trim().toLowerCase();
+  const visible = options
+    .map((option, index) => ({ option, index }))
+    .filter(({ option }) => {
+      if (!option) return false;
+      if (!query) return true;
+      return [option.label, option.value, option.description, option.group]
+        .filter((text): text is string => typeof text === "string")
+        .some((text) => text.toLowerCase().includes(query));
+    });
+
+  if (sort) {
+    const direction = sort.order === "desc" ? -1 : 1;
+    visible.sort(
+      (a, b) =>
+        direction *
+        String(a.option[sort.by] ?? "").localeCompare(
+          String(b.option[sort.by] ?? ""),
+          undefined,
+          { numeric: true, sensitivity: "base" },
+        ),
+    );
+  }
+  return visible;
+}
+
+// Split the visible options into pages of `pageSize` options. Group headers
+// are repeated at the top of a page when a group continues from the previous
+// one, and collapsed groups only contribute their header.
+function paginateRows(
+  visible: { option: DataCardItem; index: number }[],
+  collapsedGroups: string[],
+  pageSize: number,
+): DataCardRow[][] {
+  const hasGroups = visible.some(({ option }) => option.group);
+  const sections = new Map<string, { option: DataCardItem; index: number }[]>();
+  for (const entry of visible) {
+    const group = hasGroups ? (entry.option.group ?? UNGROUPED_LABEL) : "";
+    sections.set(group, [...(sections.get(group) ?? []), entry]);
+  }
+
+  const pages: DataCardRow[][] = [[]];
+  let optionsOnPage = 0;
+  const startPage = () => {
+    pages.push([]);
+    optionsOnPage = 0;
+  };
+
+  for (const [group, entries] of sections) {
+    const collapsed = collapsedGroups.includes(group);
+    const header: DataCardRow = {
+      type: "group",
+      group,
+      count: entries.length,
+      collapsed,
+    };
+    if (hasGroups) {
+      if (optionsOnPage >= pageSize) startPage();
+      pages[pages.length - 1].push(header);
+    }
+    if (collapsed) continue;
+
+    for (const entry of entries) {
+      if (optionsOnPage >= pageSize) {
+        startPage();
+        if (hasGroups) pages[pages.length - 1].push(header);
+      }
+      pages[pages.length - 1].push({ type: "option", ...entry });
+      optionsOnPage++;
+    }
+  }
+  return pages;
+}
+
 // Define the component props schema with Zod
 export const dataCardSchema = z.object({
   title: z.string().describe("Title displayed above the data cards"),
+  stateKey: z
+    .string()
+    .optional()
+    .describe(
+      "Optional unique key for this card's selection state. Set it when showing several cards with the same title and options",
+    ),
   options: z
     .array(
       z.object({
@@ -35,9 +255,101 @@ export const dataCardSchema = z.object({
           .string()
           .optional()
           .describe("Optional URL for the card to navigate to"),
+        group: z
+          .string()
+          .optional()
+          .describe(
+            "Optional group name. Cards with the same group are shown together under a collapsible header",
+          ),
+        imageUrl: z
+          .string()
+          .optional()
+          .describe("Optional thumbnail image URL shown beside the card"),
+        imageAlt: z
+          .string()
+          .optional()
+          .describe("Alternative text for the thumbnail image"),
+        badges: z
+          .array(
+            z.object({
+              label: z.string().describe("Badge text, e.g. 'In stock'"),
+              tone: z
+                .enum(["neutral", "info", "success", "warning", "danger"])
+                .optional()
+                .describe("Badge color (default: neutral)"),
+            }),
+          )
+          .optional()
+          .describe("Optional status badges shown next to the card title"),
+        metadata: z
+          .array(
+            z.object({
+              label: z.string().describe("Metadata key, e.g. 'Price'"),
+              value: z.string().describe("Metadata value, e.g. '$24.99'"),
+            }),
+          )
+          .optional()
+          .describe("Optional key/value rows shown under the description"),
+        actions: z
+          .array(
+            z.object({
+              label: z.string().describe("Button text"),
+              type: z
+                .enum(["tool", "message"])
+                .describe(
+                  "'tool' calls a registered tool with toolInput; 'message' sends the message as the user",
+                ),
+              toolName: z
+                .string()
+                .optional()
+                .describe("Name of the registered tool to call (tool actions)"),
+              toolInput: z
+                .record(z.string(), z.unknown())
+                .optional()
+                .describe("Input passed to the tool (tool actions)"),
+              message: z
+                .string()
+                .optional()
+                .describe(
+                  "Message to send. {id}, {label} and {value} are replaced with the card's fields. For tool actions it is sent after the tool succeeds, with {result} replaced by the tool output",
+                ),
+            }),
+          )
+          .optional()
+          .describe("Optional buttons shown on the card"),
       }),
     )
     .describe("Array of selectable cards to display"),
+  pageSize: z
+    .number()
+    .optional()
+    .describe(
+      "Number of cards shown per page for long lists (default: 20). A filter box and sort controls appear automatically when there are more than 8 cards",
+    ),
+  selectionMode: z
+    .enum(["single", "multiple", "none"])
+    .optional()
+    .describe(
+      "How cards can be selected: single (radio, pick one), multiple (checkboxes, default) or none (display only)",
+    ),
+  maxSelections: z
+    .number()
+    .optional()
+    .describe(
+      "Multiple mode only: maximum number of cards that can be selected",
+    ),
+  submitLabel: z
+    .string()
+    .optional()
+    .describe(
+      "When set, shows a submit button with this label that sends the selected cards back as a user message. Use it for 'pick one of these options' flows",
+    ),
+  submitTemplate: z
+    .string()
+    .optional()
+    .describe(
+      "Message sent by the submit button. {labels} and {values} are replaced with the selected cards, e.g. 'Book the {labels} flight' (default: 'I picked: {labels}')",
+    ),
 });
 
 // Define the props type based on the Zod schema
@@ -48,113 +360,600 @@ export type DataCardProps = z.infer<typeof dataCardSchema> &
  * DataCard Component
  *
  * A component that displays options as clickable cards with links and summaries
- * with the ability to select multiple items.
+ * with the ability to select one or more items and optionally submit the
+ * selection back to the assistant. The cards form a checkbox group (or a
+ * radio group in single mode) that can be navigated with the arrow keys and
+ * toggled with Space or Enter.
  */
 export const DataCard = React.forwardRef<HTMLDivElement, DataCardProps>(
-  ({ title, options, className, ...props }, ref) => {
+  (
+    {
+      title,
+      options,
+      stateKey,
+      selectionMode = "multiple",
+      maxSelections,
+      submitLabel,
+      submitTemplate,
+      pageSize = DEFAULT_PAGE_SIZE,
+      className,
+      ...props
+    },
+    ref,
+  ) => {
     // Initialize Tambo component state
     const [state, setState] = useTamboComponentState<DataCardState>(
-      `data-card`,
+      getDataCardStateKey(title, options, stateKey),
       { selectedValues: [] },
     );
 
+    // Carry over selections stored under the legacy shared key, keeping only
+    // values that belong to this card
+    const [legacyState] = useTamboComponentState<DataCardState | undefined>(
+      LEGACY_STATE_KEY,
+      undefined,
+    );
+    const hasMigratedRef = React.useRef(false);
+
+    React.useEffect(() => {
+      if (hasMigratedRef.current || !options?.length) return;
+      if (!legacyState?.selectedValues?.length) return;
+      hasMigratedRef.current = true;
+      if (state?.selectedValues.length) return;
+
+      const optionValues = new Set(options.map((option) => option?.value));
+      const carriedOver = legacyState.selectedValues.filter((value) =>
+        optionValues.has(value),
+      );
+      if (carriedOver.length > 0) {
+        setState({ selectedValues: carriedOver });
+      }
+    }, [legacyState, options, state, setState]);
+
+    const { send, isDisabled: isSendDisabled } = useSendThreadMessage();
+    const isSubmitted = !!state?.submitted;
+    const isSelectable = selectionMode !== "none" && !isSubmitted;
+    const selectedCount = state?.selectedValues.length ?? 0;
+    const isAtMaxSelections =
+      selectionMode === "multiple" &&
+      maxSelections !== undefined &&
+      selectedCount >= maxSelections;
+
     // Handle option selection
     const handleToggleCard = (value: string) => {
-      if (!state) return;
+      if (!state || !isSelectable) return;
 
-      const selectedValues = [...state.selectedValues];
-      const index = selectedValues.indexOf(value);
+      const isSelected = state.selectedValues.includes(value);
+
+      if (selectionMode === "single") {
+        setState({ ...state, selectedValues: isSelected ? [] : [value] });
+        return;
+      }
 
-      // Toggle selection
-      if (index > -1) {
+      if (isSelected) {
         // Remove if already selected
-        selectedValues.splice(index, 1);
-      } else {
-        selectedValues.push(value);
+        setState({
+          ...state,
+          selectedValues: state.selectedValues.filter((v) => v !== value),
+        });
+      } else if (!isAtMaxSelections) {
+        setState({
+          ...state,
+          selectedValues: [...state.selectedValues, value],
+        });
       }
+    };
+
+    // Send the selected cards back to the assistant
+    const handleSubmit = () => {
+      if (!state || selectedCount === 0 || isSubmitted) return;
+
+      const selectedOptions = (options ?? []).filter((option) =>
+        state.selectedValues.includes(option.value),
+      );
+      const message = (submitTemplate ?? DEFAULT_SUBMIT_TEMPLATE)
+        .replace(
+          /\{labels\}/g,
+          selectedOptions.map((option) => option.label).join(", "),
+        )
+        .replace(
+          /\{values\}/g,
+          selectedOptions.map((option) => option.value).join(", "),
+        );
+
+      send(message);
+      setState({ ...state, submitted: true });
+    };
+
+    const filter = state?.filter ?? "";
+    const sort = state?.sort;
+    const collapsedGroups = React.useMemo(
+      () => state?.collapsedGroups ?? [],
+      [state?.collapsedGroups],
+    );
+    const showControls = (options?.length ?? 0) > CONTROLS_THRESHOLD;
+
+    const visibleOptions = React.useMemo(
+      () => getVisibleOptions(options ?? [], filter, sort),
+      [options, filter, sort],
+    );
+    const pages = React.useMemo(
+      () =>
+        paginateRows(visibleOptions, collapsedGroups, Math.max(1, pageSize)),
+      [visibleOptions, collapsedGroups, pageSize],
+    );
+    const pageIndex = Math.min(state?.page ?? 0, pages.length - 1);
+    const rows = pages[pageIndex];
 
-      // Update component state
-      setState({ selectedValues });
+    const handleFilterChange = (value: string) => {
+      if (!state) return;
+      setState({ ...state, filter: value, page: 0 });
     };
 
-    // Handle navigation to URL
-    const handleNavigate = (url?: string) => {
-      if (url) {
-        window.open(url, "_blank");
+    const handleSortChange = (value: string) => {
+      if (!state) return;
+      const [by, order] = value.split("-") as [
+        DataCardSort["by"],
+        DataCardSort["order"],
+      ];
+      setState({ ...state, sort: value ? { by, order } : null, page: 0 });
+    };
+
+    const handlePageChange = (page: number) => {
+      if (!state) return;
+      setState({ ...state, page });
+    };
+
+    const handleToggleGroup = (group: string) => {
+      if (!state) return;
+      setState({
+        ...state,
+        collapsedGroups: collapsedGroups.includes(group)
+          ? collapsedGroups.filter((g) => g !== group)
+          : [...collapsedGroups, group],
+      });
+    };
+
+    const { toolRegistry } = useTambo();
+    const [pendingAction, setPendingAction] = React.useState<string | null>(
+      null,
+    );
+
+    // Merge into the latest state, since the action may finish after other
+    // updates such as a selection change
+    const setLastAction = (lastAction: DataCardActionResult) =>
+      setState((prev) => ({
+        ...(prev ?? { selectedValues: [] }),
+        lastAction,
+      }));
+
+    // Run a card action: call the registered tool or send the message
+    const handleAction = async (
+      card: DataCardItem,
+      action: DataCardAction,
+      actionKey: string,
+    ) => {
+      if (action.type === "message") {
+        if (action.message) send(fillActionTemplate(action.message, card));
+        return;
+      }
+
+      const tool = action.toolName ? toolRegistry[action.toolName] : undefined;
+      if (!tool) {
+        setLastAction({
+          optionId: card.id,
+          action: action.label,
+          status: "error",
+          error: `Tool "${action.toolName}" is not registered`,
+        });
+        return;
+      }
+
+      // The input comes from the model, so check it against the tool's
+      // schema before running the tool
+      const parsed = asZodSchema(tool.inputSchema)?.safeParse(
+        action.toolInput ?? {},
+      );
+      if (parsed && !parsed.success) {
+        setLastAction({
+          optionId: card.id,
+          action: action.label,
+          status: "error",
+          error: `Invalid input for "${action.toolName}": ${formatZodIssues(parsed.error).join("; ")}`,
+        });
+        return;
+      }
+
+      setPendingAction(actionKey);
+      try {
+        const result: unknown = await tool.tool(
+          parsed ? parsed.data : (action.toolInput ?? {}),
+        );
+        setLastAction({
+          optionId: card.id,
+          action: action.label,
+          status: "success",
+          result,
+        });
+        if (action.message)
+          send(fillActionTemplate(action.message, card, result));
+      } catch (error) {
+        setLastAction({
+          optionId: card.id,
+          action: action.label,
+          status: "error",
+          error: error instanceof Error ? error.message : String(error),
+        });
+      } finally {
+        setPendingAction(null);
       }
     };
 
+    // Roving focus: only the focused card is in the tab order, and the
+    // arrow keys move focus between the cards on the current page
+    const baseId = React.useId();
+    const pageOptions = rows.filter(
+      (row): row is Extract<DataCardRow, { type: "option" }> =>
+        row.type === "option",
+    );
+    const [focusedIndex, setFocusedIndex] = React.useState(0);
+    const itemRefs = React.useRef<(HTMLDivElement | null)[]>([]);
+    const activeIndex = Math.min(focusedIndex, pageOptions.length - 1);
+
+    const focusItem = (position: number) => {
+      const next = Math.max(0, Math.min(position, pageOptions.length - 1));
+      setFocusedIndex(next);
+      itemRefs.current[next]?.focus();
+    };
+
+    const handleItemKeyDown = (
+      event: React.KeyboardEvent<HTMLDivElement>,
+      position: number,
+      value: string,
+    ) => {
+      switch (event.key) {
+        case "ArrowDown":
+        case "ArrowRight":
+          event.preventDefault();
+          focusItem((position + 1) % pageOptions.length);
+          break;
+        case "ArrowUp":
+        case "ArrowLeft":
+          event.preventDefault();
+          focusItem((position - 1 + pageOptions.length) % pageOptions.length);
+          break;
+        case "Home":
+          event.preventDefault();
+          focusItem(0);
+          break;
+        case "End":
+          event.preventDefault();
+          focusItem(pageOptions.length - 1);
+          break;
+        case " ":
+        case "Enter":
+          event.preventDefault();
+          handleToggleCard(value);
+          break;
+      }
+    };
+
+    const listRole =
+      selectionMode === "single"
+        ? "radiogroup"
+        : selectionMode === "multiple"
+          ? "group"
+          : "list";
+    const itemRole =
+      selectionMode === "single"
+        ? "radio"
+        : selectionMode === "multiple"
+          ? "checkbox"
+          : "listitem";
+
     return (
       <div ref={ref} className={cn("w-full", className)} {...props}>
         {title && (
           <h2 className="text-lg font-medium text-gray-700 mb-3">{title}</h2>
         )}
 
-        <div className="space-y-2">
-          {options?.map((card, index) => (
-            <div
-              key={`${card.id || "card"}-${index}`}
-              className="border-b border-gray-100 pb-2 last:border-0"
+        {showControls && (
+          <div className="flex flex-wrap items-center gap-2 mb-3">
+            <div className="relative flex-1 min-w-[10rem]">
+              <Search className="absolute left-2 top-1/2 -translate-y-1/2 h-3.5 w-3.5 text-gray-400" />
+              <input
+                type="search"
+                value={filter}
+                onChange={(e) => handleFilterChange(e.target.value)}
+                placeholder="Filter options"
+                aria-label="Filter options"
+                className="w-full pl-7 pr-2 py-1.5 text-sm border border-gray-200 rounded-md focus:outline-none focus:border-gray-300"
+              />
+            </div>
+            <select
+              value={sort ? `${sort.by}-${sort.order}` : ""}
+              onChange={(e) => handleSortChange(e.target.value)}
+              aria-label="Sort options"
+              className="py-1.5 px-2 text-sm border border-gray-200 rounded-md bg-transparent focus:outline-none focus:border-gray-300"
             >
+              {SORT_OPTIONS.map((option) => (
+                <option key={option.value} value={option.value}>
+                  {option.label}
+                </option>
+              ))}
+            </select>
+          </div>
+        )}
+
+        <div
+          className="space-y-2"
+          role={listRole}
+          aria-label={title || "Options"}
+        >
+          {rows.map((row) => {
+            if (row.type === "group") {
+              return (
+                <button
+                  key={`group-${row.group}`}
+                  type="button"
+                  className="flex w-full items-center gap-1 pt-1 text-xs font-medium uppercase tracking-wide text-gray-500 hover:text-gray-700"
+                  onClick={() => handleToggleGroup(row.group)}
+                  aria-expanded={!row.collapsed}
+                >
+                  <ChevronDown
+                    className={cn(
+                      "h-3.5 w-3.5 transition-transform",
+                      row.collapsed && "-rotate-90",
+                    )}
+                  />
+                  {row.group}
+                  <span className="font-normal normal-case">({row.count})</span>
+                </button>
+              );
+            }
+
+            const { option: card, index } = row;
+            const position = pageOptions.indexOf(row);
+            const isSelected = !!state?.selectedValues.includes(card.value);
+            const isItemDisabled =
+              !isSelectable || (isAtMaxSelections && !isSelected);
+            const labelId = `${baseId}-${index}-label`;
+            const descriptionId = `${baseId}-${index}-description`;
+            return (
               <div
-                className={cn(
-                  "group flex items-start p-1.5 rounded-md transition-colors",
-                  state &&
-                    state.selectedValues.includes(card.value) &&
-                    "bg-gray-50",
-                )}
+                key={`${card.id || "card"}-${index}`}
+                className="border-b border-gray-100 pb-2 last:border-0"
               >
                 <div
-                  className="flex-shrink-0 mr-3 mt-0.5 cursor-pointer"
+                  ref={(element) => {
+                    itemRefs.current[position] = element;
+                  }}
+                  role={itemRole}
+                  aria-checked={
+                    selectionMode === "none" ? undefined : isSelected
+                  }
+                  aria-disabled={
+                    selectionMode === "none" ? undefined : isItemDisabled
+                  }
+                  aria-labelledby={labelId}
+                  aria-describedby={
+                    card.description ? descriptionId : undefined
+                  }
+                  tabIndex={
+                    selectionMode === "none"
+                      ? undefined
+                      : position === activeIndex
+                        ? 0
+                        : -1
+                  }
                   onClick={() => handleToggleCard(card.value)}
+                  onKeyDown={
+                    selectionMode === "none"
+                      ? undefined
+                      : (e) => handleItemKeyDown(e, position, card.value)
+                  }
+                  onFocus={() => setFocusedIndex(position)}
+                  className={cn(
+                    "group flex items-start gap-3 p-1.5 rounded-md transition-colors",
+                    "focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-blue-500",
+                    isSelectable && "cursor-pointer",
+                    isSelected && "bg-gray-50",
+                  )}
                 >
-                  <div
-                    className={cn(
-                      "w-4 h-4 border rounded-sm flex items-center justify-center transition-colors",
-                      state && state.selectedValues.includes(card.value)
-                        ? "bg-blue-500 border-blue-500 text-white"
-                        : "border-gray-200 hover:border-gray-300",
+                  {selectionMode !== "none" && (
+                    <div
+                      aria-hidden="true"
+                      className={cn(
+                        "flex-shrink-0 mt-0.5 w-4 h-4 border flex items-center justify-center transition-colors",
+                        selectionMode === "single"
+                          ? "rounded-full"
+                          : "rounded-sm",
+                        isSelected
+                          ? "bg-blue-500 border-blue-500 text-white"
+                          : "border-gray-200 group-hover:border-gray-300",
+                        isAtMaxSelections && !isSelected && "opacity-50",
+                        isSubmitted && "opacity-60",
+                      )}
+                    >
+                      {isSelected &&
+                        (selectionMode === "single" ? (
+                          <span className="w-1.5 h-1.5 rounded-full bg-white" />
+                        ) : (
+                          <Check className="h-2.5 w-2.5" />
+                        ))}
+                    </div>
+                  )}
+                  {card.imageUrl && (
+                    <img
+                      src={card.imageUrl}
+                      alt={card.imageAlt ?? ""}
+                      loading="lazy"
+                      className="w-12 h-12 flex-shrink-0 rounded-md object-cover bg-gray-100"
+                    />
+                  )}
+                  <div className="flex-1 min-w-0">
+                    <div className="flex flex-wrap items-center gap-1.5">
+                      <h3
+                        id={labelId}
+                        className={cn(
+                          "text-blue-600 font-medium text-sm",
+                          "group-hover:text-blue-700",
+                          isSelected && "text-blue-700",
+                        )}
+                      >
+                        {card.label}
+                      </h3>
+                      {card.badges?.map((badge, badgeIndex) => (
+                        <span
+                          key={`${badge.label}-${badgeIndex}`}
+                          className={cn(
+                            "px-1.5 py-0.5 rounded text-[10px] font-medium leading-none",
+                            BADGE_TONE_CLASSES[badge.tone ?? "neutral"],
+                          )}
+                        >
+                          {badge.label}
+                        </span>
+                      ))}
+                    </div>
+                    {card.description && (
+                      <p
+                        id={descriptionId}
+                        className="text-xs text-gray-500 mt-0.5 leading-relaxed"
+                      >
+                        {card.description}
+                      </p>
                     )}
-                  >
-                    {state && state.selectedValues.includes(card.value) && (
-                      <Check className="h-2.5 w-2.5" />
+                    {!!card.metadata?.length && (
+                      <dl className="grid grid-cols-[auto_1fr] gap-x-3 gap-y-0.5 mt-1 text-xs">
+                        {card.metadata.map((row, rowIndex) => (
+                          <React.Fragment key={`${row.label}-${rowIndex}`}>
+                            <dt className="text-gray-500">{row.label}</dt>
+                            <dd className="text-gray-700 truncate">
+                              {row.value}
+                            </dd>
+                          </React.Fragment>
+                        ))}
+                      </dl>
                     )}
                   </div>
                 </div>
-                <div
-                  className="flex-1 cursor-pointer"
-                  onClick={() =>
-                    card.url
-                      ? handleNavigate(card.url)
-                      : handleToggleCard(card.value)
-                  }
-                >
-                  <h3
+                {(card.url ||
+                  !!card.actions?.length ||
+                  state?.lastAction?.optionId === card.id) && (
+                  <div
                     className={cn(
-                      "text-blue-600 font-medium text-sm",
-                      "group-hover:text-blue-700",
-                      state &&
-                        state.selectedValues.includes(card.value) &&
-                        "text-blue-700",
+                      "px-1.5",
+                      selectionMode !== "none" && "pl-[2.125rem]",
                     )}
                   >
-                    {card.label}
-                  </h3>
-                  {card.description && (
-                    <p className="text-xs text-gray-500 mt-0.5 leading-relaxed">
-                      {card.description}
-                    </p>
-                  )}
-                  {card.url && (
-                    <span className="text-xs text-green-600 mt-1 block truncate opacity-80">
-                      {card.url}
-                    </span>
-                  )}
-                </div>
+                    {card.url && (
+                      <a
+                        href={card.url}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="text-xs text-green-600 block truncate opacity-80 hover:opacity-100 hover:underline"
+                      >
+                        {card.url}
+                      </a>
+                    )}
+                    {!!card.actions?.length && (
+                      <div className="flex flex-wrap gap-1.5 mt-2">
+                        {card.actions.map((action, actionIndex) => {
+                          const actionKey = `${card.id}-${actionIndex}`;
+                          return (
+                            <button
+                              key={actionKey}
+                              type="button"
+                              className="inline-flex items-center gap-1 px-2 py-1 rounded-md border border-gray-200 text-xs font-medium text-gray-700 transition-colors hover:bg-gray-50 disabled:opacity-50 disabled:pointer-events-none"
+                              onClick={() =>
+                                void handleAction(card, action, actionKey)
+                              }
+                              disabled={
+                                pendingAction !== null ||
+                                (action.type === "message" && isSendDisabled)
+                              }
+                            >
+                              {pendingAction === actionKey && (
+                                <Loader2 className="h-3 w-3 animate-spin" />
+                              )}
+                              {action.label}
+                            </button>
+                          );
+                        })}
+                      </div>
+                    )}
+                    {state?.lastAction?.optionId === card.id &&
+                      state.lastAction.status === "error" && (
+                        <p className="text-xs text-red-600 mt-1" role="alert">
+                          {state.lastAction.action} failed:{" "}
+                          {state.lastAction.error}
+                        </p>
+                      )}
+                  </div>
+                )}
               </div>
-            </div>
-          ))}
+            );
+          })}
+          {visibleOptions.length === 0 && (
+            <p className="text-sm text-gray-500 py-2">
+              No options match &ldquo;{filter}&rdquo;
+            </p>
+          )}
         </div>
+
+        {pages.length > 1 && (
+          <div className="flex items-center justify-between gap-2 mt-3 text-xs text-gray-500">
+            <span>
+              Page {pageIndex + 1} of {pages.length} &middot;{" "}
+              {visibleOptions.length} options
+            </span>
+            <div className="flex items-center gap-1">
+              <button
+                type="button"
+                className="p-1 rounded-md hover:bg-gray-100 disabled:opacity-50 disabled:pointer-events-none"
+                onClick={() => handlePageChange(pageIndex - 1)}
+                disabled={pageIndex === 0}
+                aria-label="Previous page"
+              >
+                <ChevronLeft className="h-4 w-4" />
+              </button>
+              <button
+                type="button"
+                className="p-1 rounded-md hover:bg-gray-100 disabled:opacity-50 disabled:pointer-events-none"
+                onClick={() => handlePageChange(pageIndex + 1)}
+                disabled={pageIndex >= pages.length - 1}
+                aria-label="Next page"
+              >
+                <ChevronRight className="h-4 w-4" />
+              </button>
+            </div>
+          </div>
+        )}
+
+        {(submitLabel || maxSelections !== undefined) &&
+          selectionMode !== "none" && (
+            <div className="flex items-center justify-between gap-2 mt-3">
+              <span className="text-xs text-gray-500">
+                {isSubmitted
+                  ? "Selection sent"
+                  : maxSelections !== undefined && selectionMode === "multiple"
+                    ? `${selectedCount} of ${maxSelections} selected`
+                    : `${selectedCount} selected`}
+              </span>
+              {submitLabel && (
+                <button
+                  type="button"
+                  className="px-3 py-1.5 rounded-md text-sm font-medium bg-blue-500 text-white transition-colors hover:bg-blue-600 disabled:opacity-50 disabled:pointer-events-none"
+                  onClick={handleSubmit}
+                  disabled={
+                    selectedCount === 0 || isSubmitted || isSendDisabled
+                  }
+                >
+                  {submitLabel}
+                </button>
+              )}
+            </div>
+          )}
       </div>
     );
   },
@@ -0,0 +1,37 @@
+/**
+ * Sample props for previewing registered components without the model, used
+ * by the component gallery and the streaming check.
+ */
+import type { TamboComponent } from "@tambo-ai/react";
+import {
+  asZodSchema,
+  createSampleVariants,
+  describeSchema,
+  type SampleVariant,
+} from "./zod-schema";
+
+/**
+ * Registration options for components whose valid props cannot be generated
+ * from their props schema alone
+ */
+export interface ComponentSampleOptions {
+  /** Used instead of the samples generated from `propsSchema` */
+  samples?: SampleVariant[];
+}
+
+export type PreviewableComponent = TamboComponent & ComponentSampleOptions;
+
+/**
+ * Returns the component's own samples, or one sample per option of its props
+ * schema's first enum field
+ */
+export function getComponentSamples(
+  component: TamboComponent,
+): SampleVariant[] {
+  const { samples } = component as PreviewableComponent;
+  if (samples && samples.length > 0) return samples;
+  const schema = asZodSchema(component.propsSchema);
+  return schema
+    ? createSampleVariants(describeSchema(schema))
+    : [{ label: "Default", value: {} }];
+}
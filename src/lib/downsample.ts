@@ -0,0 +1,93 @@
+/**
+ * Selects which points of a series to keep using the Largest-Triangle-Three-
+ * Buckets algorithm, which preserves the visual shape of a line (peaks,
+ * troughs and trends) far better than picking every nth point.
+ *
+ * The series is split into `threshold - 2` buckets. The first and last points
+ * are always kept; from each bucket the point forming the largest triangle
+ * with the previously kept point and the average of the next bucket is kept.
+ *
+ * @param xs - X values in ascending order
+ * @param ys - Y values, one per x value
+ * @param threshold - Maximum number of points to keep
+ * @returns The indices of the kept points, in ascending order
+ */
+export function largestTriangleThreeBuckets(
+  xs: readonly number[],
+  ys: readonly number[],
+  threshold: number,
+): number[] {
+  const length = Math.min(xs.length, ys.length);
+  if (threshold >= length || threshold < 3) {
+    return Array.from({ length }, (_, index) => index);
+  }
+
+  const selected: number[] = [0];
+  const bucketSize = (length - 2) / (threshold - 2);
+  let previous = 0;
+
+  for (let bucket = 0; bucket < threshold - 2; bucket++) {
+    // Average of the next bucket, used as the third triangle vertex
+    const nextStart = Math.floor((bucket + 1) * bucketSize) + 1;
+    const nextEnd = Math.min(Math.floor((bucket + 2) * bucketSize) + 1, length);
+    let averageX = 0;
+    let averageY = 0;
+    for (let index = nextStart; index < nextEnd; index++) {
+      averageX += xs[index];
+      averageY += ys[index];
+    }
+    const nextCount = Math.max(nextEnd - nextStart, 1);
+    averageX /= nextCount;
+    averageY /= nextCount;
+
+    // Pick the point in the current bucket with the largest triangle area
+    const start = Math.floor(bucket * bucketSize) + 1;
+    const end = Math.floor((bucket + 1) * bucketSize) + 1;
+    let maxArea = -1;
+    let maxIndex = start;
+    for (let index = start; index < end; index++) {
+      const area = Math.abs(
+        (xs[previous] - averageX) * (ys[index] - ys[previous]) -
+          (xs[previous] - xs[index]) * (averageY - ys[previous]),
+      );
+      if (area > maxArea) {
+        maxArea = area;
+        maxIndex = index;
+      }
+    }
+
+    selected.push(maxIndex);
+    previous = maxIndex;
+  }
+
+  selected.push(length - 1);
+  return selected;
+}
+
+/**
+ * Downsamples several series that share the same x values by running LTTB on
+ * each and keeping the union of the selected indices, so that every series
+ * keeps its own peaks.
+ *
+ * @param xs - Shared x values in ascending order
+ * @param series - Y values per series
+ * @param threshold - Maximum number of points to keep per series
+ * @returns The indices of the kept points, in ascending order
+ */
+export function downsampleSeries(
+  xs: readonly number[],
+  series: readonly (readonly number[])[],
+  threshold: number,
+): number[] {
+  if (xs.length <= threshold) {
+    return Array.from({ length: xs.length }, (_, index) => index);
+  }
+
+  const kept = new Set<number>();
+  for (const ys of series) {
+    for (const index of largestTriangleThreeBuckets(xs, ys, threshold)) {
+      kept.add(index);
+    }
+  }
+  return Array.from(kept).sort((a, b) => a - b);
+}
@@ -0,0 +1,197 @@
+/**
+ * Simple trend models for forecasting a time series. Every model is fitted by
+ * ordinary least squares on a transformed scale where it becomes a straight
+ * line, so the same prediction interval math applies to all of them:
+ *
+ * - linear: y = a + b·t
+ * - exponential: ln(y) = a + b·t
+ * - logistic: ln(K / y - 1) = a + b·t, with the carrying capacity K chosen
+ *   by a grid search that minimizes the squared error of y
+ */
+export type ForecastModel = "linear" | "exponential" | "logistic";
+
+export interface ForecastFit {
+  model: ForecastModel;
+  /** Fitted parameters, e.g. slope and intercept for the linear model */
+  parameters: Record<string, number>;
+  /** Coefficient of determination on the original scale */
+  rSquared: number;
+  /** Root mean squared error on the original scale */
+  rmse: number;
+  /** Point estimate at time t */
+  predict: (t: number) => number;
+  /**
+   * Prediction interval at time t, where `z` is the standard normal quantile
+   * for the confidence level (e.g. 1.96 for 95%)
+   */
+  interval: (t: number, z: number) => [number, number];
+}
+
+/**
+ * Standard normal quantiles for the supported confidence levels
+ */
+export const CONFIDENCE_Z_SCORES = {
+  0.8: 1.2816,
+  0.9: 1.6449,
+  0.95: 1.96,
+  0.99: 2.5758,
+} as const;
+
+export type ConfidenceLevel = keyof typeof CONFIDENCE_Z_SCORES;
+
+interface LineFit {
+  intercept: number;
+  slope: number;
+  meanX: number;
+  sxx: number;
+  /** Residual standard error on the transformed scale */
+  sigma: number;
+  n: number;
+}
+
+function fitLine(xs: readonly number[], zs: readonly number[]): LineFit {
+  const n = xs.length;
+  const meanX = xs.reduce((sum, x) => sum + x, 0) / n;
+  const meanZ = zs.reduce((sum, z) => sum + z, 0) / n;
+  let sxx = 0;
+  let sxz = 0;
+  for (let i = 0; i < n; i++) {
+    sxx += (xs[i] - meanX) ** 2;
+    sxz += (xs[i] - meanX) * (zs[i] - meanZ);
+  }
+  const slope = sxx > 0 ? sxz / sxx : 0;
+  const intercept = meanZ - slope * meanX;
+  const sse = xs.reduce(
+    (sum, x, i) => sum + (zs[i] - (intercept + slope * x)) ** 2,
+    0,
+  );
+  const sigma = n > 2 ? Math.sqrt(sse / (n - 2)) : 0;
+  return { intercept, slope, meanX, sxx, sigma, n };
+}
+
+/**
+ * Builds a fit from a line fitted on the transformed scale and the inverse
+ * transform back to the original scale
+ */
+function toForecastFit(
+  model: ForecastModel,
+  line: LineFit,
+  inverse: (z: number) => number,
+  parameters: Record<string, number>,
+  xs: readonly number[],
+  ys: readonly number[],
+): ForecastFit {
+  const predict = (t: number) => inverse(line.intercept + line.slope * t);
+
+  const meanY = ys.reduce((sum, y) => sum + y, 0) / ys.length;
+  let sse = 0;
+  let sst = 0;
+  xs.forEach((x, i) => {
+    sse += (ys[i] - predict(x)) ** 2;
+    sst += (ys[i] - meanY) ** 2;
+  });
+
+  const interval = (t: number, z: number): [number, number] => {
+    const center = line.intercept + line.slope * t;
+    const leverage =
+      line.sxx > 0
+        ? (t - line.meanX) ** 2 / line.sxx
+        : Number.POSITIVE_INFINITY;
+    const halfWidth = z * line.sigma * Math.sqrt(1 + 1 / line.n + leverage);
+    const a = inverse(center - halfWidth);
+    const b = inverse(center + halfWidth);
+    return a <= b ? [a, b] : [b, a];
+  };
+
+  return {
+    model,
+    parameters,
+    rSquared: sst > 0 ? 1 - sse / sst : 1,
+    rmse: Math.sqrt(sse / ys.length),
+    predict,
+    interval,
+  };
+}
+
+function fitLogistic(xs: readonly number[], ys: readonly number[]) {
+  const maxY = Math.max(...ys);
+  let best: { fit: ForecastFit; sse: number } | null = null;
+
+  // Log-spaced candidates for the carrying capacity between 1.01x and 20x the
+  // largest observation
+  const steps = 400;
+  for (let step = 0; step <= steps; step++) {
+    const capacity = maxY * 1.01 * Math.pow(20 / 1.01, step / steps);
+    const line = fitLine(
+      xs,
+      ys.map((y) => Math.log(capacity / y - 1)),
+    );
+    const fit = toForecastFit(
+      "logistic",
+      line,
+      (z) => capacity / (1 + Math.exp(z)),
+      {
+        capacity,
+        growthRate: -line.slope,
+        midpoint: line.slope !== 0 ? -line.intercept / line.slope : 0,
+      },
+      xs,
+      ys,
+    );
+    const sse = fit.rmse ** 2 * ys.length;
+    if (!best || sse < best.sse) best = { fit, sse };
+  }
+  return best!.fit;
+}
+
+/**
+ * Fits a trend model to a time series.
+ *
+ * @param model - The model to fit
+ * @param xs - Time values, e.g. years
+ * @param ys - Observed values, one per time value. Must be positive for the
+ *   exponential and logistic models
+ * @returns The fitted model
+ */
+export function fitForecastModel(
+  model: ForecastModel,
+  xs: readonly number[],
+  ys: readonly number[],
+): ForecastFit {
+  if (xs.length !== ys.length || xs.length < 3) {
+    throw new Error("At least three data points are needed to fit a model");
+  }
+  if (model !== "linear" && ys.some((y) => y <= 0)) {
+    throw new Error(`The ${model} model requires positive values`);
+  }
+
+  switch (model) {
+    case "linear": {
+      const line = fitLine(xs, ys);
+      return toForecastFit(
+        model,
+        line,
+        (z) => z,
+        { intercept: line.intercept, slope: line.slope },
+        xs,
+        ys,
+      );
+    }
+    case "exponential": {
+      const line = fitLine(
+        xs,
+        ys.map((y) => Math.log(y)),
+      );
+      return toForecastFit(
+        model,
+        line,
+        Math.exp,
+        { intercept: line.intercept, growthRate: line.slope },
+        xs,
+        ys,
+      );
+    }
+    case "logistic":
+      return fitLogistic(xs, ys);
+  }
+}
@@ -0,0 +1,172 @@
+/**
+ * Reproduces the partial props a component receives while the model streams
+ * them. Props arrive as a growing JSON document, so each step is the value of
+ * a prefix of the full JSON: keys appear one at a time, strings grow, arrays
+ * gain items, and values that have not started yet are missing.
+ */
+
+const NONE = Symbol("none");
+
+/**
+ * Parses a prefix of a JSON document, keeping every value that has started.
+ * Incomplete strings and numbers are kept as far as they go; object keys that
+ * are cut off, and `true`/`false`/`null` literals that are cut off, are left
+ * out.
+ * @returns The partial value, or undefined when no value has started
+ * @throws SyntaxError if the text is not a prefix of valid JSON
+ */
+export function parsePartialJson(text: string): unknown {
+  let index = 0;
+
+  const skipWhitespace = () => {
+    while (index < text.length && /\s/.test(text[index])) index++;
+  };
+
+  const parseString = (): { value: string; complete: boolean } => {
+    index++; // opening quote
+    let value = "";
+    while (index < text.length) {
+      const char = text[index];
+      if (char === '"') {
+        index++;
+        return { value, complete: true };
+      }
+      if (char === "\\") {
+        const escape = text[index + 1];
+        if (escape === undefined) break;
+        if (escape === "u") {
+          const hex = text.slice(index + 2, index + 6);
+          if (hex.length < 4) break;
+          value += String.fromCharCode(parseInt(hex, 16));
+          index += 6;
+          continue;
+        }
+        value +=
+          { b: "\b", f: "\f", n: "\n", r: "\r", t: "\t" }[escape] ?? escape;
+        index += 2;
+        continue;
+      }
+      value += char;
+      index++;
+    }
+    index = text.length;
+    return { value, complete: false };
+  };
+
+  const parseLiteral = (): unknown => {
+    const rest = text.slice(index);
+    // Numbers cut off after the point or exponent, e.g. "1." or "2e", keep
+    // their leading digits
+    const number = /^-?\d+(\.\d*)?([eE][+-]?\d*)?/.exec(rest);
+    if (number) {
+      index += number[0].length;
+      return parseFloat(number[0]);
+    }
+    const keyword = /^(true|false|null)/.exec(rest);
+    if (keyword) {
+      index += keyword[0].length;
+      return JSON.parse(keyword[0]);
+    }
+    // A literal cut off at the end of the text, e.g. "tr" or "-"
+    if (/^(-|t|tr|tru|f|fa|fal|fals|n|nu|nul)$/.test(rest)) {
+      index = text.length;
+      return NONE;
+    }
+    throw new SyntaxError(`Unexpected token at position ${index} in JSON`);
+  };
+
+  const parseArray = (): unknown[] => {
+    index++; // [
+    const items: unknown[] = [];
+    for (;;) {
+      skipWhitespace();
+      if (index >= text.length) return items;
+      if (text[index] === "]") {
+        index++;
+        return items;
+      }
+      if (text[index] === ",") {
+        index++;
+        continue;
+      }
+      const item = parseValue();
+      if (item === NONE) return items;
+      items.push(item);
+    }
+  };
+
+  const parseObject = (): Record<string, unknown> => {
+    index++; // {
+    const object: Record<string, unknown> = {};
+    for (;;) {
+      skipWhitespace();
+      if (index >= text.length) return object;
+      if (text[index] === "}") {
+        index++;
+        return object;
+      }
+      if (text[index] === ",") {
+        index++;
+        continue;
+      }
+      if (text[index] !== '"') {
+        throw new SyntaxError(`Expected a key at position ${index} in JSON`);
+      }
+      const key = parseString();
+      skipWhitespace();
+      if (!key.complete || index >= text.length) return object;
+      if (text[index] !== ":") {
+        throw new SyntaxError(`Expected ':' at position ${index} in JSON`);
+      }
+      index++;
+      const value = parseValue();
+      if (value === NONE) return object;
+      object[key.value] = value;
+    }
+  };
+
+  function parseValue(): unknown {
+    skipWhitespace();
+    if (index >= text.length) return NONE;
+    switch (text[index]) {
+      case "{":
+        return parseObject();
+      case "[":
+        return parseArray();
+      case '"':
+        return parseString().value;
+      default:
+        return parseLiteral();
+    }
+  }
+
+  const value = parseValue();
+  return value === NONE ? undefined : value;
+}
+
+/**
+ * Splits props into the sequence of partial props a component would receive
+ * if they were streamed in `steps` chunks of the JSON. Consecutive identical
+ * steps are dropped; the last step is always the full props.
+ */
+export function createPartialPropsSequence(
+  props: unknown,
+  steps = 24,
+): unknown[] {
+  const json = JSON.stringify(props);
+  const sequence: unknown[] = [];
+  let previous: string | undefined;
+
+  for (let step = 1; step <= steps; step++) {
+    const value =
+      parsePartialJson(
+        json.slice(0, Math.round((json.length * step) / steps)),
+      ) ?? {};
+    const serialized = JSON.stringify(value);
+    if (serialized !== previous) {
+      sequence.push(value);
+      previous = serialized;
+    }
+  }
+  return sequence;
+}
@@ -8,50 +8,181 @@
  * Read more about Tambo at https://tambo.co/docs
  */
 
-import { Graph, graphSchema } from "@/components/tambo/graph";
+import { Graph, graphSamples, graphSchema } from "@/components/tambo/graph";
 import { DataCard, dataCardSchema } from "@/components/ui/card-data";
+import type { PreviewableComponent } from "@/lib/component-samples";
 import {
+  confirmToolCalls,
+  type ConfirmableTool,
+} from "@/lib/tool-confirmation";
+import {
+  applyToolMiddleware,
+  cacheToolResults,
+  logToolCalls,
+  retryToolCalls,
+  timeoutToolCalls,
+  validateToolIo,
+  type ValidatedTool,
+} from "@/lib/tool-middleware";
+import { CONTINENTS, parseContinent } from "@/services/population-data";
+import { downloadCountryPopulationsCsv } from "@/services/population-export";
+import {
+  aggregatePopulation,
+  compareCountries,
   getCountryPopulations,
   getGlobalPopulationTrend,
+  MAX_PROJECTION_YEAR,
+  projectPopulation,
 } from "@/services/population-stats";
-import type { TamboComponent } from "@tambo-ai/react";
 import { TamboTool } from "@tambo-ai/react";
 import { z } from "zod";
 
+// Filters shared by the tools that list countries
+const countryPopulationInputSchema = z.object({
+  continent: z
+    .preprocess(
+      (value) =>
+        typeof value === "string" ? (parseContinent(value) ?? value) : value,
+      z.enum(CONTINENTS),
+    )
+    .optional()
+    .describe("Only return countries on this continent"),
+  sortBy: z
+    .enum(["population", "growthRate", "name"])
+    .optional()
+    .describe(
+      "Field to sort by. When only order is given, results are sorted by population",
+    ),
+  limit: z
+    .number()
+    .int()
+    .min(1)
+    .optional()
+    .describe("Maximum number of countries to return"),
+  offset: z
+    .number()
+    .int()
+    .min(0)
+    .optional()
+    .describe("Number of countries to skip, for paging through results"),
+  order: z
+    .enum(["asc", "desc"])
+    .optional()
+    .describe("Sort direction (default: desc for numbers, asc for names)"),
+  year: z
+    .number()
+    .optional()
+    .describe(
+      "Return figures for this year, using the closest earlier data point",
+    ),
+});
+
+// Returned by the population services instead of data when the input is invalid
+const invalidInputSchema = z.object({
+  error: z.object({
+    code: z.literal("invalid_input"),
+    message: z.string(),
+    issues: z.array(
+      z.object({
+        field: z.string(),
+        message: z.string(),
+        allowedValues: z.array(z.string()).optional(),
+      }),
+    ),
+  }),
+});
+
 /**
  * tools
  *
  * This array contains all the Tambo tools that are registered for use within the application.
  * Each tool is defined with its name, description, and expected props. The tools
  * can be controlled by AI to dynamically fetch data based on user interactions.
+ * The tool playground at /tools runs these definitions directly.
  */
 
-export const tools: TamboTool[] = [
+export const toolDefinitions: (ConfirmableTool & ValidatedTool)[] = [
   {
     name: "countryPopulation",
     description:
-      "A tool to get population statistics by country with advanced filtering options",
+      "A tool to get population statistics (in millions) for every country with advanced filtering options. Data covers 1990 to 2023; returns each country's latest figures unless a year is given. Invalid input returns an error object describing what to fix",
     tool: getCountryPopulations,
+    // The service reports invalid input as an error object with the allowed
+    // values, which helps the model more than a validation error
+    validateInput: false,
+    inputSchema: countryPopulationInputSchema,
+    outputSchema: z.union([
+      z.array(
+        z.object({
+          countryCode: z.string(),
+          countryName: z.string(),
+          continent: z.enum(CONTINENTS),
+          region: z.string().optional(),
+          incomeGroup: z
+            .enum(["low", "lower-middle", "upper-middle", "high"])
+            .optional(),
+          population: z.number(),
+          year: z.number(),
+          growthRate: z.number(),
+        }),
+      ),
+      invalidInputSchema,
+    ]),
+  },
+  {
+    name: "downloadCountryPopulations",
+    title: "Download country populations",
+    description:
+      "A tool to save country population figures as a CSV file in the user's downloads. Only use it when the user asks to download or export the data. Takes the same filters as countryPopulation and returns the file name and number of rows, or an error object describing what to fix. The user is asked to approve each download",
+    tool: downloadCountryPopulationsCsv,
+    requiresConfirmation: true,
+    validateInput: false,
+    annotations: { readOnlyHint: false, idempotentHint: false },
+    inputSchema: countryPopulationInputSchema,
+    outputSchema: z.union([
+      z.object({
+        fileName: z.string(),
+        rowCount: z.number(),
+      }),
+      invalidInputSchema,
+    ]),
+  },
+  {
+    name: "aggregatePopulation",
+    description:
+      "A tool to roll up country populations by continent, UN sub-region or World Bank income group. Use it instead of summing countries yourself. Returns, per group, the number of countries, total, mean and median population (in millions), the smallest and largest country, and the population-weighted growth rate",
+    tool: aggregatePopulation,
     inputSchema: z.object({
-      continent: z.string().optional(),
-      sortBy: z.enum(["population", "growthRate"]).optional(),
-      limit: z.number().optional(),
-      order: z.enum(["asc", "desc"]).optional(),
+      groupBy: z
+        .enum(["continent", "region", "incomeGroup"])
+        .describe(
+          "continent, region (UN sub-region, e.g. 'Western Africa') or incomeGroup (low, lower-middle, upper-middle, high)",
+        ),
+      year: z
+        .number()
+        .optional()
+        .describe(
+          "Aggregate figures for this year, using each country's closest earlier data point (default: latest)",
+        ),
     }),
     outputSchema: z.array(
       z.object({
-        countryCode: z.string(),
-        countryName: z.string(),
-        continent: z.enum([
-          "Asia",
-          "Africa",
-          "Europe",
-          "North America",
-          "South America",
-          "Oceania",
-        ]),
-        population: z.number(),
+        group: z.string(),
         year: z.number(),
+        countryCount: z.number(),
+        total: z.number(),
+        mean: z.number(),
+        median: z.number(),
+        min: z.object({
+          countryCode: z.string(),
+          countryName: z.string(),
+          population: z.number(),
+        }),
+        max: z.object({
+          countryCode: z.string(),
+          countryName: z.string(),
+          population: z.number(),
+        }),
         growthRate: z.number(),
       }),
     ),
@@ -59,7 +190,7 @@ export const tools: TamboTool[] = [
   {
     name: "globalPopulation",
     description:
-      "A tool to get global population trends with optional year range filtering",
+      "A tool to get yearly global population trends (in billions) from 1950 to 2023 with optional year range filtering",
     tool: getGlobalPopulationTrend,
     inputSchema: z.object({
       startYear: z.number().optional(),
@@ -73,9 +204,150 @@ export const tools: TamboTool[] = [
       }),
     ),
   },
+  {
+    name: "compareCountries",
+    description:
+      "A tool to compare the population or growth rate of several countries over time (1990 to 2023, every five years plus 2023). Returns labels and datasets that can be passed directly as the Graph component's data prop, e.g. as a line chart",
+    tool: compareCountries,
+    inputSchema: z.object({
+      countryCodes: z
+        .array(z.string())
+        .min(1)
+        .describe("ISO 3166-1 alpha-3 country codes, e.g. ['IND', 'CHN']"),
+      metric: z
+        .enum(["population", "growthRate"])
+        .describe(
+          "population (in millions) or growthRate (annualized percentage)",
+        ),
+      startYear: z.number().optional(),
+      endYear: z.number().optional(),
+    }),
+    outputSchema: z.object({
+      labels: z.array(z.string()),
+      datasets: z.array(
+        z.object({
+          label: z.string(),
+          data: z.array(z.number()),
+        }),
+      ),
+    }),
+  },
+  {
+    name: "projectPopulation",
+    description:
+      "A tool to forecast the global or a country's population with a linear, exponential or logistic trend model fitted to the observed data. Use it whenever asked about future population instead of estimating yourself. Returns observed and projected points with a confidence band, plus `graph` and `annotations` that can be passed directly to the Graph component's data and annotations props to draw the projection as a line with a shaded band",
+    tool: projectPopulation,
+    inputSchema: z.object({
+      model: z
+        .enum(["linear", "exponential", "logistic"])
+        .describe(
+          "linear (constant yearly change), exponential (constant growth rate) or logistic (growth slowing towards a plateau, usually the most realistic for long horizons)",
+        ),
+      targetYear: z
+        .number()
+        .int()
+        .max(MAX_PROJECTION_YEAR)
+        .describe(
+          `Last year to project, e.g. 2050. Must be after 2023 and no later than ${MAX_PROJECTION_YEAR}`,
+        ),
+      countryCode: z
+        .string()
+        .optional()
+        .describe(
+          "ISO 3166-1 alpha-3 country code. Omit to project the global population",
+        ),
+      startYear: z
+        .number()
+        .optional()
+        .describe(
+          "First observed year used to fit the model (default: all data, 1950 for global and 1990 for countries)",
+        ),
+      confidenceLevel: z
+        .union([
+          z.literal(0.8),
+          z.literal(0.9),
+          z.literal(0.95),
+          z.literal(0.99),
+        ])
+        .optional()
+        .describe("Confidence level of the band (default: 0.95)"),
+    }),
+    outputSchema: z.object({
+      model: z.enum(["linear", "exponential", "logistic"]),
+      subject: z.string(),
+      unit: z.enum(["billions", "millions"]),
+      confidenceLevel: z.number(),
+      lastObservedYear: z.number(),
+      fit: z.object({
+        rSquared: z.number(),
+        rmse: z.number(),
+        parameters: z.record(z.string(), z.number()),
+      }),
+      points: z.array(
+        z.object({
+          year: z.number(),
+          value: z.number(),
+          lower: z.number(),
+          upper: z.number(),
+          projected: z.boolean(),
+        }),
+      ),
+      graph: z.object({
+        type: z.literal("line"),
+        labels: z.array(z.string()),
+        datasets: z.array(
+          z.object({
+            label: z.string(),
+            data: z.array(z.number()),
+            lower: z.array(z.number()),
+            upper: z.array(z.number()),
+          }),
+        ),
+      }),
+      annotations: z.array(
+        z.object({
+          type: z.literal("verticalLine"),
+          x: z.string(),
+          label: z.string(),
+        }),
+      ),
+    }),
+  },
   // Add more tools here
 ];
 
+/**
+ * The middleware pipeline for the registered tools. Calls pass through it
+ * from top to bottom: tools that require confirmation wait for the user
+ * first, logging sees the total latency, invalid input is rejected before it
+ * reaches the cache, and the timeout applies to each retry attempt.
+ */
+const createToolMiddleware = ({ cache }: { cache: boolean }) => [
+  confirmToolCalls(),
+  logToolCalls(),
+  validateToolIo(),
+  ...(cache ? [cacheToolResults({ ttlMs: 60_000 })] : []),
+  retryToolCalls({ retries: 2, baseDelayMs: 250 }),
+  timeoutToolCalls(10_000),
+];
+
+/**
+ * The registered tools, each wrapped with the middleware pipeline
+ */
+export const tools: TamboTool[] = applyToolMiddleware(
+  toolDefinitions,
+  createToolMiddleware({ cache: true }),
+);
+
+/**
+ * The tools as the /tools playground runs them: the same pipeline without
+ * the cache, so every run reaches the tool
+ */
+export const playgroundTools: TamboTool[] = applyToolMiddleware(
+  toolDefinitions,
+  createToolMiddleware({ cache: false }),
+);
+
 /**
  * components
  *
@@ -83,18 +355,19 @@ export const tools: TamboTool[] = [
  * Each component is defined with its name, description, and expected props. The components
  * can be controlled by AI to dynamically render UI elements based on user interactions.
  */
-export const components: TamboComponent[] = [
+export const components: PreviewableComponent[] = [
   {
     name: "Graph",
     description:
-      "A component that renders various types of charts (bar, line, pie) using Recharts. Supports customizable data visualization with labels, datasets, and styling options.",
+      "A component that renders various types of charts (bar, line, pie, area, stacked bar/area, scatter, radar, composed bar+line) using Recharts. Supports customizable data visualization with labels, datasets, axis titles, units, number formatting, a secondary Y axis, time-series X axes with brush zoom, click-to-select data points with follow-up questions, annotations (reference lines, shaded ranges, point labels), confidence bands around line and area series, and styling options.",
     component: Graph,
     propsSchema: graphSchema,
+    samples: graphSamples,
   },
   {
     name: "DataCard",
     description:
-      "A component that displays options as clickable cards with links and summaries with the ability to select multiple items.",
+      "A component that displays options as clickable cards with links and summaries. Supports single, multiple or no selection, a maximum number of selections, and a submit button that sends the chosen options back as a user message. Long lists get a filter box, sort controls and pagination, and options can be grouped under collapsible headers. Cards can show a thumbnail image, status badges, key/value metadata rows and action buttons that call a registered tool or send a follow-up message.",
     component: DataCard,
     propsSchema: dataCardSchema,
   },
@@ -1,4 +1,5 @@
 import type { TamboThreadMessage } from "@tambo-ai/react";
+import { useTamboThreadInput } from "@tambo-ai/react";
 import * as React from "react";
 import { useEffect, useState } from "react";
 
@@ -281,3 +282,39 @@ export function getMessageImages(
     .filter((item) => item?.type === "image_url" && item.image_url?.url)
     .map((item) => item.image_url!.url!);
 }
+
+/**
+ * Hook for components that send a message on the user's behalf, such as a
+ * follow-up question about a chart or the options picked in a card.
+ *
+ * Sends through the nearest thread input, so render the component inside a
+ * `TamboThreadInputProvider` of its own (as `MessageRenderedComponentArea`
+ * does) to keep the user's draft and staged images out of the message. That
+ * input's `submit` reads its current value, so the message is set first and
+ * submitted once the provider has picked it up.
+ * @returns Object with a `send` function and whether sending is disabled
+ */
+export function useSendThreadMessage() {
+  const { value, setValue, submit, isDisabled } = useTamboThreadInput();
+  // A new object per call, so sending the message already in the input still
+  // triggers a submit
+  const [pending, setPending] = useState<{ message: string } | null>(null);
+
+  useEffect(() => {
+    if (pending === null || value !== pending.message) return;
+    setPending(null);
+    submit().catch((error: unknown) => {
+      console.error("Error sending message:", error);
+    });
+  }, [pending, value, submit]);
+
+  const send = React.useCallback(
+    (message: string) => {
+      setPending({ message });
+      setValue(message);
+    },
+    [setValue],
+  );
+
+  return { send, isDisabled };
+}
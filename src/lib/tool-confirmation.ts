@@ -0,0 +1,372 @@
+/**
+ * Confirmation gate for tools with side effects. Tools registered with
+ * `requiresConfirmation` (or a high `riskLevel`) wait for the user to approve
+ * the call in the thread before they run. A denial is returned to the model as
+ * a structured tool result instead of an error.
+ *
+ * Requests belong to the thread that was open when the call arrived, set by
+ * `useToolConfirmationScope`. Requests for the model's tool calls are shown
+ * on the call's message; the rest, such as calls a component makes directly,
+ * are shown at the end of the thread. Requests that are not answered in time, or whose
+ * thread is closed or switched away from, are rejected so the call fails
+ * instead of waiting forever.
+ */
+import type { TamboTool, TamboThreadMessage } from "@tambo-ai/react";
+import { useEffect, useMemo, useSyncExternalStore } from "react";
+import { stableStringify, type ToolMiddleware } from "./tool-middleware";
+
+export type ToolRiskLevel = "low" | "medium" | "high";
+
+/**
+ * Registration options for tools that need the user's approval
+ */
+export interface ToolConfirmationOptions {
+  /** Ask the user before every call */
+  requiresConfirmation?: boolean;
+  /**
+   * How much damage a call can do; defaults to "medium". High risk tools
+   * always ask for confirmation and cannot be allowed for a whole thread.
+   */
+  riskLevel?: ToolRiskLevel;
+}
+
+export type ConfirmableTool = TamboTool & ToolConfirmationOptions;
+
+/**
+ * Whether calls to the tool wait for the user's approval
+ */
+export const needsToolConfirmation = ({
+  requiresConfirmation,
+  riskLevel = "medium",
+}: ToolConfirmationOptions): boolean =>
+  !!requiresConfirmation || riskLevel === "high";
+
+export interface ToolConfirmationRequest {
+  id: string;
+  toolName: string;
+  toolTitle: string;
+  input: unknown;
+  riskLevel: ToolRiskLevel;
+}
+
+/**
+ * The result the model receives when the user denies a tool call
+ */
+export interface ToolCallDenial {
+  status: "denied";
+  tool: string;
+  message: string;
+}
+
+/**
+ * Thrown when a call that needs confirmation can no longer be confirmed: it
+ * timed out, its thread was closed, or no thread was open to ask in
+ */
+export class ToolConfirmationError extends Error {
+  constructor(
+    readonly toolName: string,
+    reason: string,
+  ) {
+    super(`Tool "${toolName}" was not run: ${reason}`);
+    this.name = "ToolConfirmationError";
+  }
+}
+
+type Decision = "approve" | "deny";
+
+interface PendingConfirmation extends ToolConfirmationRequest {
+  threadId: string;
+  settle: (decision: Decision | ToolConfirmationError) => void;
+}
+
+const STORAGE_KEY = "tambo-tool-allowlist";
+
+const EMPTY: readonly ToolConfirmationRequest[] = [];
+
+// Pending requests by thread ID. Replaced rather than mutated so that
+// useSyncExternalStore sees a new snapshot on every change.
+let pendingByThread: ReadonlyMap<string, readonly PendingConfirmation[]> =
+  new Map();
+// Threads shown by a mounted confirmation scope, most recently opened last.
+// New calls are asked in the last one.
+let openThreads: string[] = [];
+const listeners = new Set<() => void>();
+
+function notify() {
+  listeners.forEach((listener) => listener());
+}
+
+function subscribe(listener: () => void) {
+  listeners.add(listener);
+  return () => listeners.delete(listener);
+}
+
+const getPendingByThread = () => pendingByThread;
+
+function setThreadPending(
+  threadId: string,
+  requests: readonly PendingConfirmation[],
+) {
+  const next = new Map(pendingByThread);
+  if (requests.length > 0) next.set(threadId, requests);
+  else next.delete(threadId);
+  pendingByThread = next;
+  notify();
+}
+
+function findPending(id: string): PendingConfirmation | undefined {
+  for (const requests of pendingByThread.values()) {
+    const request = requests.find((candidate) => candidate.id === id);
+    if (request) return request;
+  }
+  return undefined;
+}
+
+// Tools the user allowed for the rest of a thread, keyed by thread ID and kept
+// in localStorage so the choice survives a reload
+function readAllowlist(): Record<string, string[]> {
+  if (typeof window === "undefined") return {};
+  try {
+    const stored: unknown = JSON.parse(
+      localStorage.getItem(STORAGE_KEY) ?? "{}",
+    );
+    return stored && typeof stored === "object"
+      ? (stored as Record<string, string[]>)
+      : {};
+  } catch {
+    return {};
+  }
+}
+
+function isAllowedForThread(threadId: string, toolName: string): boolean {
+  return readAllowlist()[threadId]?.includes(toolName) ?? false;
+}
+
+function allowForThread(threadId: string, toolName: string) {
+  const allowlist = readAllowlist();
+  const tools = allowlist[threadId] ?? [];
+  if (tools.includes(toolName)) return;
+  allowlist[threadId] = [...tools, toolName];
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(allowlist));
+}
+
+function settle(id: string, decision: Decision | ToolConfirmationError) {
+  const request = findPending(id);
+  if (!request) return;
+  setThreadPending(
+    request.threadId,
+    (pendingByThread.get(request.threadId) ?? []).filter(
+      (candidate) => candidate !== request,
+    ),
+  );
+  request.settle(decision);
+}
+
+// Rejects every request waiting in a thread that no scope shows any more
+function rejectThread(threadId: string) {
+  (pendingByThread.get(threadId) ?? []).forEach((request) =>
+    settle(
+      request.id,
+      new ToolConfirmationError(
+        request.toolName,
+        "the thread was closed before the user confirmed the call",
+      ),
+    ),
+  );
+}
+
+export function approveToolCall(id: string) {
+  settle(id, "approve");
+}
+
+export function denyToolCall(id: string) {
+  settle(id, "deny");
+}
+
+/**
+ * Approves the call and every later call to the same tool in the thread
+ */
+export function alwaysAllowToolCall(id: string, threadId: string) {
+  const request = findPending(id);
+  if (!request || request.riskLevel === "high") return;
+  allowForThread(threadId, request.toolName);
+  settle(id, "approve");
+}
+
+// Arguments may carry Tambo's internal `_tambo_*` display properties, which
+// are stripped from the tool_use blocks shown in the thread
+function inputKey(input: unknown): string {
+  if (!input || typeof input !== "object" || Array.isArray(input)) {
+    return stableStringify(input);
+  }
+  return stableStringify(
+    Object.fromEntries(
+      Object.entries(input).filter(([key]) => !key.startsWith("_tambo_")),
+    ),
+  );
+}
+
+export interface ConfirmToolCallsOptions {
+  /** How long a call waits for the user before it fails; defaults to 2 minutes */
+  timeoutMs?: number;
+}
+
+/**
+ * Holds calls to tools that require confirmation until the user approves
+ * them. Add it before validation so a denial is not checked against the
+ * tool's output schema.
+ */
+export function confirmToolCalls({
+  timeoutMs = 120_000,
+}: ConfirmToolCallsOptions = {}): ToolMiddleware {
+  return (next, tool) => {
+    const { riskLevel = "medium" } = tool as ConfirmableTool;
+    if (!needsToolConfirmation(tool as ConfirmableTool)) return next;
+
+    return async (input) => {
+      const threadId = openThreads.at(-1);
+      if (!threadId) {
+        throw new ToolConfirmationError(
+          tool.name,
+          "it needs the user's confirmation and no thread is open to ask in",
+        );
+      }
+      if (riskLevel !== "high" && isAllowedForThread(threadId, tool.name)) {
+        return next(input);
+      }
+
+      const id = crypto.randomUUID();
+      const decision = await new Promise<Decision>((resolve, reject) => {
+        const timer = setTimeout(
+          () =>
+            settle(
+              id,
+              new ToolConfirmationError(
+                tool.name,
+                `the user did not confirm the call within ${Math.round(timeoutMs / 1000)}s`,
+              ),
+            ),
+          timeoutMs,
+        );
+        setThreadPending(threadId, [
+          ...(pendingByThread.get(threadId) ?? []),
+          {
+            id,
+            threadId,
+            toolName: tool.name,
+            toolTitle: tool.title ?? tool.name,
+            input,
+            riskLevel,
+            settle: (result) => {
+              clearTimeout(timer);
+              if (result instanceof ToolConfirmationError) reject(result);
+              else resolve(result);
+            },
+          },
+        ]);
+      });
+
+      if (decision === "deny") {
+        const denial: ToolCallDenial = {
+          status: "denied",
+          tool: tool.name,
+          message:
+            "The user declined this tool call. Do not retry it unless the user asks you to.",
+        };
+        return denial;
+      }
+      return next(input);
+    };
+  };
+}
+
+/**
+ * Marks a thread as open for confirmations while the calling component is
+ * mounted. Calls that need confirmation are asked in the most recently opened
+ * thread; when a thread is switched away from or unmounted, its waiting calls
+ * are rejected. Mount it once per thread view.
+ */
+export function useToolConfirmationScope(threadId: string | undefined) {
+  useEffect(() => {
+    if (!threadId) return;
+    openThreads = [...openThreads, threadId];
+    return () => {
+      const index = openThreads.lastIndexOf(threadId);
+      openThreads = openThreads.filter((_, position) => position !== index);
+      if (!openThreads.includes(threadId)) rejectThread(threadId);
+    };
+  }, [threadId]);
+}
+
+// Whether the request is for one of the messages' tool calls that has not
+// finished yet
+function isForToolUse(
+  request: ToolConfirmationRequest,
+  messages: readonly (TamboThreadMessage | undefined)[],
+): boolean {
+  return messages.some((message) =>
+    (message?.content ?? []).some(
+      (block) =>
+        block.type === "tool_use" &&
+        !block.hasCompleted &&
+        block.name === request.toolName &&
+        inputKey(block.input) === inputKey(request.input),
+    ),
+  );
+}
+
+function useThreadRequests(threadId: string | undefined) {
+  const byThread = useSyncExternalStore(
+    subscribe,
+    getPendingByThread,
+    getPendingByThread,
+  );
+  return (threadId && byThread.get(threadId)) || EMPTY;
+}
+
+/**
+ * Returns the confirmation requests waiting on the tool calls of a message.
+ * Calls to tools the user already allowed for the thread are approved
+ * automatically.
+ */
+export function useToolConfirmationRequests(
+  message: TamboThreadMessage | undefined,
+  threadId: string | undefined,
+): readonly ToolConfirmationRequest[] {
+  const requests = useThreadRequests(threadId);
+
+  const matches = useMemo(
+    () => requests.filter((request) => isForToolUse(request, [message])),
+    [message, requests],
+  );
+
+  useEffect(() => {
+    if (!threadId) return;
+    matches
+      .filter(
+        (request) =>
+          request.riskLevel !== "high" &&
+          isAllowedForThread(threadId, request.toolName),
+      )
+      .forEach((request) => approveToolCall(request.id));
+  }, [matches, threadId]);
+
+  return matches;
+}
+
+/**
+ * Returns the confirmation requests that belong to none of the thread's
+ * messages, such as calls a component made directly through the tool
+ * registry. Show them alongside the thread so they do not wait unseen until
+ * they time out.
+ */
+export function useUnmatchedToolConfirmationRequests(
+  messages: readonly TamboThreadMessage[],
+  threadId: string | undefined,
+): readonly ToolConfirmationRequest[] {
+  const requests = useThreadRequests(threadId);
+  return useMemo(
+    () => requests.filter((request) => !isForToolUse(request, messages)),
+    [messages, requests],
+  );
+}
@@ -0,0 +1,323 @@
+/**
+ * Composable middleware for Tambo tools. A middleware wraps a tool's handler
+ * and returns a new handler, so cross-cutting concerns (logging, timeouts,
+ * retries, caching, validation) can be applied to every registered tool
+ * without touching the tool implementations.
+ *
+ * Tambo sends the message of a thrown error back to the model, so the errors
+ * raised here are written to be actionable.
+ */
+import type { TamboTool } from "@tambo-ai/react";
+
+export type ToolHandler = (input: unknown) => Promise<unknown>;
+
+export type ToolMiddleware = (
+  next: ToolHandler,
+  tool: TamboTool,
+) => ToolHandler;
+
+/**
+ * Registration options read by the validation middleware
+ */
+export interface ToolValidationOptions {
+  /**
+   * Set to false for tools that check their own input and return a structured
+   * error the model can act on; they then receive the raw input. Defaults to
+   * true.
+   */
+  validateInput?: boolean;
+}
+
+export type ValidatedTool = TamboTool & ToolValidationOptions;
+
+export interface ToolValidationIssue {
+  path: string;
+  message: string;
+}
+
+export class ToolValidationError extends Error {
+  constructor(
+    readonly toolName: string,
+    readonly kind: "input" | "output",
+    readonly issues: ToolValidationIssue[],
+  ) {
+    super(
+      `Invalid ${kind} for tool "${toolName}": ${issues
+        .map((issue) =>
+          issue.path ? `${issue.path}: ${issue.message}` : issue.message,
+        )
+        .join("; ")}`,
+    );
+    this.name = "ToolValidationError";
+  }
+}
+
+export class ToolTimeoutError extends Error {
+  constructor(
+    readonly toolName: string,
+    readonly timeoutMs: number,
+  ) {
+    super(`Tool "${toolName}" did not respond within ${timeoutMs}ms`);
+    this.name = "ToolTimeoutError";
+  }
+}
+
+/**
+ * Wraps every tool's handler with the given middleware. The first middleware
+ * is the outermost, so it sees each call first and its result last.
+ */
+export function applyToolMiddleware(
+  tools: TamboTool[],
+  middleware: ToolMiddleware[],
+): TamboTool[] {
+  return tools.map((tool) => {
+    const handler = middleware.reduceRight<ToolHandler>(
+      (next, wrap) => wrap(next, tool),
+      async (input) => tool.tool(input),
+    );
+    return { ...tool, tool: handler };
+  });
+}
+
+export interface ToolLogEntry {
+  tool: string;
+  status: "success" | "error";
+  durationMs: number;
+  input: unknown;
+  error?: string;
+}
+
+/**
+ * Logs one structured entry per call with its latency in milliseconds
+ */
+export function logToolCalls(
+  log: (entry: ToolLogEntry) => void = (entry) =>
+    (entry.status === "error" ? console.error : console.info)("[tool]", entry),
+): ToolMiddleware {
+  return (next, tool) => async (input) => {
+    const start = performance.now();
+    const durationMs = () => Math.round(performance.now() - start);
+    try {
+      const result = await next(input);
+      log({
+        tool: tool.name,
+        status: "success",
+        durationMs: durationMs(),
+        input,
+      });
+      return result;
+    } catch (error) {
+      log({
+        tool: tool.name,
+        status: "error",
+        durationMs: durationMs(),
+        input,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      throw error;
+    }
+  };
+}
+
+/**
+ * Rejects calls that take longer than `timeoutMs`. The underlying work is not
+ * cancelled, only abandoned.
+ */
+export function timeoutToolCalls(timeoutMs: number): ToolMiddleware {
+  return (next, tool) => (input) =>
+    new Promise((resolve, reject) => {
+      const timer = setTimeout(
+        () => reject(new ToolTimeoutError(tool.name, timeoutMs)),
+        timeoutMs,
+      );
+      next(input)
+        .then(resolve, reject)
+        .finally(() => clearTimeout(timer));
+    });
+}
+
+/**
+ * Whether an error is likely to go away on a second attempt: a timeout, or a
+ * request that failed at the network level (fetch rejects with a TypeError).
+ * Errors about the input or missing data fail the same way every time.
+ */
+export const isTransientError = (error: unknown): boolean =>
+  error instanceof ToolTimeoutError ||
+  (error instanceof TypeError &&
+    /fetch|network|load failed/i.test(error.message));
+
+export interface RetryOptions {
+  /** Number of attempts after the first one */
+  retries: number;
+  /** Delay before the first retry, doubled for each following one */
+  baseDelayMs: number;
+  maxDelayMs?: number;
+  /**
+   * Whether an error is worth retrying; defaults to `isTransientError`.
+   * Validation errors never are.
+   */
+  shouldRetry?: (error: unknown) => boolean;
+}
+
+/**
+ * Retries failed calls with exponential backoff and jitter, by default only
+ * after timeouts and network errors. Tools annotated with
+ * `idempotentHint: false` are never retried.
+ */
+export function retryToolCalls({
+  retries,
+  baseDelayMs,
+  maxDelayMs = 5000,
+  shouldRetry = isTransientError,
+}: RetryOptions): ToolMiddleware {
+  return (next, tool) => {
+    if (tool.annotations?.idempotentHint === false) return next;
+
+    return async (input) => {
+      for (let attempt = 0; ; attempt++) {
+        try {
+          return await next(input);
+        } catch (error) {
+          if (
+            attempt >= retries ||
+            error instanceof ToolValidationError ||
+            !shouldRetry(error)
+          ) {
+            throw error;
+          }
+          const delay = Math.min(baseDelayMs * 2 ** attempt, maxDelayMs);
+          // Jitter the delay between half and the full value
+          await new Promise((resolve) =>
+            setTimeout(resolve, delay / 2 + (Math.random() * delay) / 2),
+          );
+        }
+      }
+    };
+  };
+}
+
+/**
+ * Serializes a value as JSON with object keys sorted, so equal inputs produce
+ * equal keys regardless of property order
+ */
+export function stableStringify(value: unknown): string {
+  return JSON.stringify(value, (_key, nested: unknown) =>
+    nested && typeof nested === "object" && !Array.isArray(nested)
+      ? Object.fromEntries(
+          Object.entries(nested).sort(([a], [b]) => a.localeCompare(b)),
+        )
+      : nested,
+  );
+}
+
+export interface CacheOptions {
+  ttlMs: number;
+  /** Entries kept per tool before the oldest is evicted */
+  maxEntries?: number;
+}
+
+/**
+ * Reuses results for identical inputs for `ttlMs`. Concurrent identical calls
+ * share one execution, and failures are not cached. Tools annotated with
+ * `readOnlyHint: false` are never cached.
+ */
+export function cacheToolResults({
+  ttlMs,
+  maxEntries = 100,
+}: CacheOptions): ToolMiddleware {
+  return (next, tool) => {
+    if (tool.annotations?.readOnlyHint === false) return next;
+
+    const entries = new Map<
+      string,
+      { promise: Promise<unknown>; expiresAt: number }
+    >();
+
+    return (input) => {
+      const key = stableStringify(input);
+      const cached = entries.get(key);
+      if (cached && Date.now() < cached.expiresAt) return cached.promise;
+
+      const entry = {
+        promise: next(input),
+        // Pending calls never expire, so identical calls share them
+        expiresAt: Number.POSITIVE_INFINITY,
+      };
+      entries.delete(key);
+      entries.set(key, entry);
+      if (entries.size > maxEntries) {
+        entries.delete(entries.keys().next().value!);
+      }
+      entry.promise.then(
+        () => {
+          entry.expiresAt = Date.now() + ttlMs;
+        },
+        () => {
+          if (entries.get(key) === entry) entries.delete(key);
+        },
+      );
+      return entry.promise;
+    };
+  };
+}
+
+interface StandardSchema {
+  "~standard": {
+    validate: (value: unknown) => StandardResult | Promise<StandardResult>;
+  };
+}
+
+type StandardResult =
+  | { value: unknown; issues?: undefined }
+  | {
+      issues: readonly {
+        message: string;
+        path?: readonly (PropertyKey | { key: PropertyKey })[];
+      }[];
+    };
+
+const isStandardSchema = (schema: unknown): schema is StandardSchema =>
+  typeof schema === "object" && schema !== null && "~standard" in schema;
+
+async function validate(
+  schema: unknown,
+  value: unknown,
+  toolName: string,
+  kind: "input" | "output",
+): Promise<unknown> {
+  // Raw JSON Schemas are only descriptive, so they are not enforced
+  if (!isStandardSchema(schema)) return value;
+
+  const result = await schema["~standard"].validate(value);
+  if (result.issues) {
+    throw new ToolValidationError(
+      toolName,
+      kind,
+      result.issues.map((issue) => ({
+        path: (issue.path ?? [])
+          .map((segment) =>
+            String(typeof segment === "object" ? segment.key : segment),
+          )
+          .join("."),
+        message: issue.message,
+      })),
+    );
+  }
+  return result.value;
+}
+
+/**
+ * Validates the input against the tool's `inputSchema` before calling it,
+ * passing on the parsed value, and the result against its `outputSchema`.
+ * Tools registered with `validateInput: false` skip the input check.
+ */
+export function validateToolIo(): ToolMiddleware {
+  return (next, tool) => async (input) => {
+    const parsed =
+      (tool as ValidatedTool).validateInput === false
+        ? input
+        : await validate(tool.inputSchema, input, tool.name, "input");
+    const result = await next(parsed);
+    return validate(tool.outputSchema, result, tool.name, "output");
+  };
+}
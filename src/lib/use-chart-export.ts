@@ -0,0 +1,239 @@
+import { useCallback, useRef } from "react";
+
+/**
+ * Minimal data shape needed to export a chart as CSV. Matches the Graph
+ * component's `labels` + `datasets` props.
+ */
+export interface ChartExportData {
+  labels: string[];
+  datasets: {
+    label: string;
+    data: number[];
+    points?: { x: number; y: number }[];
+  }[];
+}
+
+/**
+ * Style properties copied from the live DOM onto the exported SVG so that
+ * CSS variables and stylesheet rules survive outside the page.
+ */
+const INLINED_STYLE_PROPERTIES = [
+  "fill",
+  "fill-opacity",
+  "stroke",
+  "stroke-opacity",
+  "stroke-width",
+  "stroke-dasharray",
+  "opacity",
+  "font-family",
+  "font-size",
+  "font-weight",
+  "text-anchor",
+  "dominant-baseline",
+  "visibility",
+];
+
+/**
+ * Turns a chart title into a safe file name (without extension).
+ */
+export function toExportFileName(title: string | undefined): string {
+  const slug = (title ?? "")
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "");
+  return slug || "chart";
+}
+
+/**
+ * Triggers a browser download for the given blob.
+ */
+export function downloadBlob(blob: Blob, fileName: string) {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+}
+
+/**
+ * Finds the main Recharts surface inside a container. Legend icons are also
+ * rendered as `recharts-surface` SVGs, so prefer the one owned by the wrapper.
+ */
+function findChartSvg(container: HTMLElement): SVGSVGElement | null {
+  return (
+    container.querySelector<SVGSVGElement>(".recharts-wrapper > svg") ??
+    container.querySelector<SVGSVGElement>("svg")
+  );
+}
+
+/**
+ * Serializes the Recharts SVG inside `container` into a standalone SVG
+ * document, inlining computed styles so theme tokens resolve to real colors.
+ */
+export function serializeChartSvg(container: HTMLElement): {
+  svg: string;
+  width: number;
+  height: number;
+} | null {
+  const source = findChartSvg(container);
+  if (!source) return null;
+
+  const { width, height } = source.getBoundingClientRect();
+  const clone = source.cloneNode(true) as SVGSVGElement;
+
+  const sourceNodes = [source, ...Array.from(source.querySelectorAll("*"))];
+  const cloneNodes = [clone, ...Array.from(clone.querySelectorAll("*"))];
+  sourceNodes.forEach((node, index) => {
+    const target = cloneNodes[index] as SVGElement | undefined;
+    if (!target) return;
+    const computed = window.getComputedStyle(node);
+    const inlined = INLINED_STYLE_PROPERTIES.map(
+      (property) => `${property}:${computed.getPropertyValue(property)}`,
+    ).join(";");
+    target.setAttribute("style", inlined);
+  });
+
+  clone.setAttribute("xmlns", "http://www.w3.org/2000/svg");
+  clone.setAttribute("width", String(width));
+  clone.setAttribute("height", String(height));
+  clone.setAttribute("viewBox", `0 0 ${width} ${height}`);
+
+  return {
+    svg: new XMLSerializer().serializeToString(clone),
+    width,
+    height,
+  };
+}
+
+/**
+ * Rasterizes an SVG string to a PNG blob using an offscreen canvas.
+ */
+export async function rasterizeSvg(
+  svg: string,
+  width: number,
+  height: number,
+  options: { scale?: number; background?: string } = {},
+): Promise<Blob> {
+  const { scale = 2, background } = options;
+  const url = URL.createObjectURL(
+    new Blob([svg], { type: "image/svg+xml;charset=utf-8" }),
+  );
+
+  try {
+    const image = new Image();
+    await new Promise<void>((resolve, reject) => {
+      image.onload = () => resolve();
+      image.onerror = () => reject(new Error("Failed to load chart SVG"));
+      image.src = url;
+    });
+
+    const canvas = document.createElement("canvas");
+    canvas.width = Math.ceil(width * scale);
+    canvas.height = Math.ceil(height * scale);
+    const context = canvas.getContext("2d");
+    if (!context) {
+      throw new Error("Canvas 2D context is not available");
+    }
+    if (background) {
+      context.fillStyle = background;
+      context.fillRect(0, 0, canvas.width, canvas.height);
+    }
+    context.scale(scale, scale);
+    context.drawImage(image, 0, 0, width, height);
+
+    return await new Promise<Blob>((resolve, reject) => {
+      canvas.toBlob((blob) =>
+        blob ? resolve(blob) : reject(new Error("Failed to encode PNG")),
+      );
+    });
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+}
+
+/**
+ * Quotes a CSV cell when it contains a comma, quote or line break.
+ */
+export function escapeCsvCell(value: string | number): string {
+  const text = String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Builds a CSV document from chart data. Category charts produce one row per
+ * label and one column per dataset; scatter data (datasets with `points`)
+ * produces one row per point.
+ */
+export function buildChartCsv(data: ChartExportData): string {
+  const rows: (string | number)[][] = [];
+  const hasPoints = data.datasets.some((dataset) => dataset.points?.length);
+
+  if (hasPoints) {
+    rows.push(["dataset", "x", "y"]);
+    for (const dataset of data.datasets) {
+      for (const point of dataset.points ?? []) {
+        rows.push([dataset.label, point.x, point.y]);
+      }
+    }
+  } else {
+    rows.push(["label", ...data.datasets.map((dataset) => dataset.label)]);
+    data.labels.forEach((label, index) => {
+      rows.push([
+        label,
+        ...data.datasets.map((dataset) => dataset.data[index] ?? ""),
+      ]);
+    });
+  }
+
+  return rows.map((row) => row.map(escapeCsvCell).join(",")).join("\n");
+}
+
+/**
+ * Hook that exposes SVG, PNG and CSV export for a chart rendered inside the
+ * returned `containerRef`.
+ * @param data - The chart data used for CSV export
+ * @param title - Used to derive the downloaded file names
+ */
+export function useChartExport<T extends HTMLElement = HTMLDivElement>(
+  data: ChartExportData | undefined,
+  title?: string,
+) {
+  const containerRef = useRef<T>(null);
+  const fileName = toExportFileName(title);
+
+  const exportSvg = useCallback(() => {
+    const container = containerRef.current;
+    const result = container && serializeChartSvg(container);
+    if (!result) return;
+    downloadBlob(
+      new Blob([result.svg], { type: "image/svg+xml;charset=utf-8" }),
+      `${fileName}.svg`,
+    );
+  }, [fileName]);
+
+  const exportPng = useCallback(async () => {
+    const container = containerRef.current;
+    const result = container && serializeChartSvg(container);
+    if (!result || !container) return;
+    const background = window.getComputedStyle(
+      container.closest("[data-slot='graph']") ?? container,
+    ).backgroundColor;
+    const blob = await rasterizeSvg(result.svg, result.width, result.height, {
+      background,
+    });
+    downloadBlob(blob, `${fileName}.png`);
+  }, [fileName]);
+
+  const exportCsv = useCallback(() => {
+    if (!data) return;
+    downloadBlob(
+      new Blob([buildChartCsv(data)], { type: "text/csv;charset=utf-8" }),
+      `${fileName}.csv`,
+    );
+  }, [data, fileName]);
+
+  return { containerRef, exportSvg, exportPng, exportCsv };
+}
@@ -0,0 +1,236 @@
+/**
+ * Describes a Zod schema as a tree of form fields, so forms and sample values
+ * can be generated for tool input schemas and component props schemas.
+ * Schemas the tree cannot express fall back to a free-form JSON field.
+ */
+import { z } from "zod";
+
+export type SchemaField =
+  | { kind: "string" }
+  | { kind: "number"; integer: boolean; min?: number; max?: number }
+  | { kind: "boolean" }
+  | { kind: "enum"; options: readonly (string | number | boolean)[] }
+  | { kind: "array"; item: SchemaNode; minItems?: number }
+  | { kind: "object"; properties: [key: string, node: SchemaNode][] }
+  | { kind: "json" };
+
+export interface SchemaNode {
+  field: SchemaField;
+  optional: boolean;
+  description?: string;
+  defaultValue?: unknown;
+}
+
+/**
+ * Narrows a registered tool or component schema to a Zod schema
+ * @returns The schema, or null for JSON Schema and other Standard Schemas
+ */
+export const asZodSchema = (schema: unknown): z.ZodTypeAny | null =>
+  schema instanceof z.ZodType ? schema : null;
+
+/**
+ * Formats Zod issues as one line each, prefixed with the issue's path
+ */
+export const formatZodIssues = (error: z.ZodError): string[] =>
+  error.issues.map((issue) =>
+    issue.path.length > 0
+      ? `${issue.path.join(".")}: ${issue.message}`
+      : issue.message,
+  );
+
+const isLiteralValue = (value: unknown): value is string | number | boolean =>
+  ["string", "number", "boolean"].includes(typeof value);
+
+/**
+ * Builds the field tree of a schema. Optional, nullable, default and effect
+ * wrappers (e.g. `z.preprocess`) are unwrapped; their descriptions are kept.
+ */
+export function describeSchema(schema: z.ZodTypeAny): SchemaNode {
+  let current = schema;
+  let optional = false;
+  let defaultValue: unknown;
+  let description = schema.description;
+
+  for (;;) {
+    description ??= current.description;
+    if (current instanceof z.ZodOptional || current instanceof z.ZodNullable) {
+      optional = true;
+      current = current.unwrap();
+    } else if (current instanceof z.ZodDefault) {
+      optional = true;
+      defaultValue = current._def.defaultValue();
+      current = current.removeDefault();
+    } else if (current instanceof z.ZodEffects) {
+      current = current.innerType();
+    } else {
+      break;
+    }
+  }
+
+  return { field: describeField(current), optional, description, defaultValue };
+}
+
+function describeField(schema: z.ZodTypeAny): SchemaField {
+  if (schema instanceof z.ZodString) return { kind: "string" };
+  if (schema instanceof z.ZodNumber) {
+    return {
+      kind: "number",
+      integer: schema.isInt,
+      min: schema.minValue ?? undefined,
+      max: schema.maxValue ?? undefined,
+    };
+  }
+  if (schema instanceof z.ZodBoolean) return { kind: "boolean" };
+  if (schema instanceof z.ZodEnum) {
+    return { kind: "enum", options: schema.options as string[] };
+  }
+  if (schema instanceof z.ZodLiteral && isLiteralValue(schema.value)) {
+    return { kind: "enum", options: [schema.value] };
+  }
+  if (schema instanceof z.ZodUnion) {
+    const options = (schema.options as z.ZodTypeAny[]).map((option) =>
+      option instanceof z.ZodLiteral ? option.value : undefined,
+    );
+    if (options.every(isLiteralValue)) return { kind: "enum", options };
+  }
+  if (schema instanceof z.ZodArray) {
+    return {
+      kind: "array",
+      item: describeSchema(schema.element),
+      minItems: schema._def.minLength?.value,
+    };
+  }
+  if (schema instanceof z.ZodObject) {
+    return {
+      kind: "object",
+      properties: Object.entries(schema.shape as z.ZodRawShape).map(
+        ([key, property]) => [key, describeSchema(property)],
+      ),
+    };
+  }
+  return { kind: "json" };
+}
+
+/**
+ * Whether the field can be edited as a single text box: primitives and lists
+ * of primitives
+ */
+export const isScalarField = (field: SchemaField): boolean =>
+  field.kind === "string" ||
+  field.kind === "number" ||
+  field.kind === "boolean" ||
+  field.kind === "enum" ||
+  (field.kind === "array" && isScalarField(field.item.field));
+
+// Number of items in generated sample arrays
+const SAMPLE_ARRAY_LENGTH = 4;
+
+const humanize = (name: string) =>
+  name
+    .replace(/([a-z])([A-Z])/g, "$1 $2")
+    .replace(/^./, (first) => first.toUpperCase());
+
+/**
+ * Generates a representative value for a schema node: required properties
+ * only, strings named after their property, arrays of a few items and
+ * varied numbers within the declared bounds. The output is deterministic.
+ */
+export function createSampleValue(node: SchemaNode, name = "value"): unknown {
+  // Deterministic pseudo-random sequence so numbers vary between items
+  let seed = 7;
+  const next = () => {
+    seed = (seed * 48271) % 2147483647;
+    return seed / 2147483647;
+  };
+
+  const sample = (
+    current: SchemaNode,
+    key: string,
+    index?: number,
+  ): unknown => {
+    const { field } = current;
+    if (current.defaultValue !== undefined) return current.defaultValue;
+    switch (field.kind) {
+      case "string":
+        return index === undefined
+          ? humanize(key)
+          : `${humanize(key)} ${index + 1}`;
+      case "number": {
+        const min = field.min ?? 0;
+        const max = field.max ?? min + 100;
+        const value = min + (max - min) * (0.2 + 0.7 * next());
+        return field.integer ? Math.round(value) : Math.round(value * 10) / 10;
+      }
+      case "boolean":
+        return false;
+      case "enum":
+        return field.options[0];
+      case "array": {
+        // Name items after the singular of the array, e.g. labels -> Label 1
+        const itemKey = key.endsWith("s") ? key.slice(0, -1) : key;
+        return Array.from(
+          { length: Math.max(field.minItems ?? 0, SAMPLE_ARRAY_LENGTH) },
+          (_, itemIndex) => sample(field.item, itemKey, itemIndex),
+        );
+      }
+      case "object":
+        return Object.fromEntries(
+          field.properties
+            .filter(([, property]) => !property.optional)
+            .map(([propertyKey, property]) => [
+              propertyKey,
+              sample(property, propertyKey, index),
+            ]),
+        );
+      case "json":
+        return null;
+    }
+  };
+
+  return sample(node, name);
+}
+
+export interface SampleVariant {
+  label: string;
+  value: unknown;
+}
+
+// Depth-first search for the first enum with several options, outside arrays
+function findVariantEnum(
+  node: SchemaNode,
+  path: string[] = [],
+): { path: string[]; options: readonly (string | number | boolean)[] } | null {
+  const { field } = node;
+  if (field.kind === "enum" && field.options.length > 1) {
+    return { path, options: field.options };
+  }
+  if (field.kind !== "object") return null;
+  for (const [key, property] of field.properties) {
+    const found = findVariantEnum(property, [...path, key]);
+    if (found) return found;
+  }
+  return null;
+}
+
+/**
+ * Generates one sample per option of the schema's first enum field (e.g. each
+ * chart type), or a single sample when the schema has no such field
+ */
+export function createSampleVariants(node: SchemaNode): SampleVariant[] {
+  const base = createSampleValue(node);
+  const variantEnum = findVariantEnum(node);
+  if (!variantEnum || variantEnum.path.length === 0) {
+    return [{ label: "Default", value: base }];
+  }
+
+  return variantEnum.options.map((option) => {
+    const value = structuredClone(base) as Record<string, unknown>;
+    let target = value;
+    for (const key of variantEnum.path.slice(0, -1)) {
+      target[key] ??= {};
+      target = target[key] as Record<string, unknown>;
+    }
+    target[variantEnum.path[variantEnum.path.length - 1]] = option;
+    return { label: `${variantEnum.path.join(".")}: ${option}`, value };
+  });
+}
@@ -0,0 +1,261 @@
+"use client";
+
+import { getComponentSamples } from "@/lib/component-samples";
+import { createPartialPropsSequence } from "@/lib/partial-props";
+import { cn } from "@/lib/utils";
+import { asZodSchema, formatZodIssues } from "@/lib/zod-schema";
+import type { TamboComponent } from "@tambo-ai/react";
+import { CheckCircle2, Play, RotateCcw, Square, XCircle } from "lucide-react";
+import * as React from "react";
+import { IssueList } from "./issue-list";
+import { PreviewErrorBoundary } from "./preview-error-boundary";
+import { StreamingCheck, type StreamingCheckProps } from "./streaming-check";
+
+// Delay between streamed prop updates, close to the pace of a real stream
+const STREAM_STEP_MS = 150;
+
+type PropsCheck =
+  | { status: "invalid-json"; message: string }
+  | { status: "invalid-props"; props: unknown; issues: string[] }
+  | { status: "valid"; props: unknown };
+
+const buttonClassName =
+  "inline-flex items-center gap-1.5 rounded-md border border-border px-3 py-1.5 text-sm hover:bg-muted disabled:opacity-50 disabled:cursor-not-allowed cursor-pointer";
+
+/**
+ * Renders one component from sample props generated from its props schema,
+ * with an editable JSON panel validated as you type and a simulated stream of
+ * partial props
+ */
+function ComponentPreview({ component }: { component: TamboComponent }) {
+  const schema = asZodSchema(component.propsSchema);
+  const variants = React.useMemo(
+    () => getComponentSamples(component),
+    [component],
+  );
+  const [variantIndex, setVariantIndex] = React.useState(0);
+  const [text, setText] = React.useState(() =>
+    JSON.stringify(variants[0].value, null, 2),
+  );
+  // Index into the partial props sequence while a stream is simulated
+  const [streamStep, setStreamStep] = React.useState<number | null>(null);
+
+  const check = React.useMemo<PropsCheck>(() => {
+    let props: unknown;
+    try {
+      props = JSON.parse(text);
+    } catch (error) {
+      return {
+        status: "invalid-json",
+        message: error instanceof Error ? error.message : String(error),
+      };
+    }
+    const parsed = schema?.safeParse(props);
+    return parsed && !parsed.success
+      ? {
+          status: "invalid-props",
+          props,
+          issues: formatZodIssues(parsed.error),
+        }
+      : { status: "valid", props };
+  }, [schema, text]);
+
+  const sequence = React.useMemo(
+    () =>
+      check.status === "invalid-json"
+        ? []
+        : createPartialPropsSequence(check.props),
+    [check],
+  );
+
+  React.useEffect(() => {
+    if (streamStep === null) return;
+    const timer = setTimeout(
+      () =>
+        setStreamStep(streamStep + 1 < sequence.length ? streamStep + 1 : null),
+      STREAM_STEP_MS,
+    );
+    return () => clearTimeout(timer);
+  }, [streamStep, sequence.length]);
+
+  const selectVariant = (index: number) => {
+    setVariantIndex(index);
+    setText(JSON.stringify(variants[index].value, null, 2));
+    setStreamStep(null);
+  };
+
+  const isStreaming = streamStep !== null;
+  const previewProps = isStreaming
+    ? sequence[streamStep]
+    : check.status !== "invalid-json"
+      ? check.props
+      : null;
+  const Component = component.component;
+
+  return (
+    <div className="flex flex-col gap-6">
+      <div>
+        <h2 className="text-lg font-semibold">{component.name}</h2>
+        <p className="text-sm text-muted-foreground mt-1">
+          {component.description}
+        </p>
+      </div>
+
+      <div className="grid gap-6 lg:grid-cols-[minmax(0,2fr)_minmax(0,3fr)]">
+        <div className="flex flex-col gap-3">
+          {variants.length > 1 && (
+            <label className="flex flex-col gap-1 text-sm font-medium">
+              Sample
+              <select
+                value={variantIndex}
+                onChange={(event) => selectVariant(Number(event.target.value))}
+                className="w-full rounded-md border border-border bg-background px-2 py-1 text-sm font-normal"
+              >
+                {variants.map((variant, index) => (
+                  <option key={variant.label} value={index}>
+                    {variant.label}
+                  </option>
+                ))}
+              </select>
+            </label>
+          )}
+          <label className="flex flex-col gap-1 text-sm font-medium">
+            Props (JSON)
+            <textarea
+              value={
+                isStreaming
+                  ? JSON.stringify(sequence[streamStep], null, 2)
+                  : text
+              }
+              readOnly={isStreaming}
+              rows={24}
+              spellCheck={false}
+              onChange={(event) => setText(event.target.value)}
+              className="w-full rounded-md border border-border bg-background px-2 py-1 font-mono text-xs font-normal"
+            />
+          </label>
+          <div aria-live="polite">
+            {check.status === "invalid-json" && (
+              <IssueList title="Invalid JSON" issues={[check.message]} />
+            )}
+            {check.status === "invalid-props" && (
+              <IssueList
+                title="Does not match propsSchema"
+                issues={check.issues}
+              />
+            )}
+            {check.status === "valid" && (
+              <span className="inline-flex items-center gap-1 text-sm text-green-600">
+                <CheckCircle2 className="h-4 w-4" />
+                {schema
+                  ? "Matches propsSchema"
+                  : "No Zod propsSchema to check against"}
+              </span>
+            )}
+          </div>
+        </div>
+
+        <div className="flex flex-col gap-3">
+          <div className="flex flex-wrap items-center gap-2">
+            <button
+              type="button"
+              disabled={sequence.length === 0}
+              onClick={() => setStreamStep(isStreaming ? null : 0)}
+              className={buttonClassName}
+            >
+              {isStreaming ? (
+                <Square className="h-4 w-4" />
+              ) : (
+                <Play className="h-4 w-4" />
+              )}
+              {isStreaming ? "Stop streaming" : "Simulate streaming"}
+            </button>
+            <button
+              type="button"
+              onClick={() => selectVariant(variantIndex)}
+              className={buttonClassName}
+            >
+              <RotateCcw className="h-4 w-4" />
+              Reset props
+            </button>
+            {isStreaming && (
+              <span className="text-sm text-muted-foreground">
+                Step {streamStep + 1} of {sequence.length}
+              </span>
+            )}
+          </div>
+          {previewProps !== null ? (
+            <PreviewErrorBoundary resetKey={previewProps}>
+              <Component {...(previewProps as object)} />
+            </PreviewErrorBoundary>
+          ) : (
+            <p className="inline-flex items-center gap-1 text-sm text-muted-foreground">
+              <XCircle className="h-4 w-4" />
+              Fix the JSON to render the component
+            </p>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export interface ComponentGalleryProps {
+  components: TamboComponent[];
+  /** Provides context to components rendered by the streaming check */
+  wrapper?: StreamingCheckProps["wrapper"];
+}
+
+/**
+ * Lists registered components and previews the selected one with generated
+ * sample props, without the model
+ */
+export function ComponentGallery({
+  components,
+  wrapper,
+}: ComponentGalleryProps) {
+  const [selectedName, setSelectedName] = React.useState(components[0]?.name);
+  const selected = components.find(
+    (component) => component.name === selectedName,
+  );
+
+  return (
+    <div className="flex h-full">
+      <nav
+        aria-label="Components"
+        className="w-64 shrink-0 overflow-auto border-r border-border p-4"
+      >
+        <ul className="flex flex-col gap-1">
+          {components.map((component) => (
+            <li key={component.name}>
+              <button
+                type="button"
+                aria-current={
+                  component.name === selectedName ? "page" : undefined
+                }
+                onClick={() => setSelectedName(component.name)}
+                className={cn(
+                  "w-full rounded-md px-3 py-2 text-left text-sm hover:bg-muted cursor-pointer",
+                  component.name === selectedName && "bg-muted font-medium",
+                )}
+              >
+                {component.name}
+              </button>
+            </li>
+          ))}
+        </ul>
+      </nav>
+      <main className="flex flex-1 flex-col gap-8 overflow-auto p-8">
+        {selected ? (
+          // Remount per component so each starts from its own sample props
+          <ComponentPreview key={selected.name} component={selected} />
+        ) : (
+          <p className="text-sm text-muted-foreground">
+            No components registered.
+          </p>
+        )}
+        <StreamingCheck components={components} wrapper={wrapper} />
+      </main>
+    </div>
+  );
+}
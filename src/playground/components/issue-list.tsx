@@ -0,0 +1,23 @@
+"use client";
+
+/**
+ * Red box listing validation issues or errors, one per line
+ */
+export function IssueList({
+  title,
+  issues,
+}: {
+  title: string;
+  issues: string[];
+}) {
+  return (
+    <div className="rounded-md bg-red-50 p-3 text-sm text-red-700">
+      <p className="font-medium">{title}</p>
+      <ul className="mt-1 list-disc pl-5 font-mono text-xs">
+        {issues.map((issue) => (
+          <li key={issue}>{issue}</li>
+        ))}
+      </ul>
+    </div>
+  );
+}
@@ -0,0 +1,57 @@
+"use client";
+
+import * as React from "react";
+
+interface PreviewErrorBoundaryProps {
+  children: React.ReactNode;
+  /** Clears a caught error when it changes, e.g. when the props change */
+  resetKey?: unknown;
+  onError?: (error: Error) => void;
+}
+
+/**
+ * Error boundary for component previews that shows the error message instead
+ * of the component, so a crash in one preview does not unmount the page
+ */
+export class PreviewErrorBoundary extends React.Component<
+  PreviewErrorBoundaryProps,
+  { error: Error | null; resetKey: unknown }
+> {
+  constructor(props: PreviewErrorBoundaryProps) {
+    super(props);
+    this.state = { error: null, resetKey: props.resetKey };
+  }
+
+  static getDerivedStateFromError(error: Error) {
+    return { error };
+  }
+
+  static getDerivedStateFromProps(
+    props: PreviewErrorBoundaryProps,
+    state: { error: Error | null; resetKey: unknown },
+  ) {
+    return props.resetKey === state.resetKey
+      ? null
+      : { error: null, resetKey: props.resetKey };
+  }
+
+  componentDidCatch(error: Error) {
+    this.props.onError?.(error);
+  }
+
+  render(): React.ReactNode {
+    if (this.state.error) {
+      return (
+        <div
+          role="alert"
+          className="rounded-md bg-red-50 p-3 text-sm text-red-700"
+        >
+          <p className="font-medium">The component threw while rendering</p>
+          <p className="mt-1 font-mono text-xs">{this.state.error.message}</p>
+        </div>
+      );
+    }
+
+    return this.props.children;
+  }
+}
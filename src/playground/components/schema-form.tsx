@@ -0,0 +1,306 @@
+"use client";
+
+import { isScalarField, type SchemaNode } from "@/lib/zod-schema";
+import { cn } from "@/lib/utils";
+import * as React from "react";
+
+/**
+ * Raw form state for a schema node: text for every scalar field (numbers and
+ * lists are parsed when the form is read) and nested drafts for objects
+ */
+export type FormDraft = string | { [key: string]: FormDraft };
+
+/**
+ * Creates the initial form state for a schema node, filled with the schema's
+ * defaults. Required booleans start as false and required enums with their
+ * first option.
+ */
+export function createDraft(node: SchemaNode): FormDraft {
+  const { field, defaultValue, optional } = node;
+  if (field.kind === "object") {
+    return Object.fromEntries(
+      field.properties.map(([key, property]) => [key, createDraft(property)]),
+    );
+  }
+  if (defaultValue !== undefined) {
+    if (field.kind === "array") {
+      return isScalarField(field.item.field)
+        ? (defaultValue as unknown[]).join(", ")
+        : JSON.stringify(defaultValue, null, 2);
+    }
+    return field.kind === "json"
+      ? JSON.stringify(defaultValue, null, 2)
+      : String(defaultValue);
+  }
+  if (!optional && field.kind === "boolean") return "false";
+  if (!optional && field.kind === "enum") return String(field.options[0]);
+  return "";
+}
+
+function parseScalar(node: SchemaNode, text: string, path: string): unknown {
+  const { field } = node;
+  if (text.trim() === "") return undefined;
+  switch (field.kind) {
+    case "number": {
+      const value = Number(text);
+      if (Number.isNaN(value)) throw new Error(`${path}: not a number`);
+      return value;
+    }
+    case "boolean":
+      return text === "true";
+    case "enum":
+      return field.options.find((option) => String(option) === text) ?? text;
+    default:
+      return text;
+  }
+}
+
+/**
+ * Reads the value described by a draft. Empty fields are left out so that
+ * optional properties stay unset.
+ * @throws Error naming the field when a number or JSON value does not parse
+ */
+export function draftToValue(
+  node: SchemaNode,
+  draft: FormDraft,
+  path = "input",
+): unknown {
+  const { field } = node;
+  if (field.kind === "object") {
+    const values = typeof draft === "object" ? draft : {};
+    const entries = field.properties
+      .map(
+        ([key, property]) =>
+          [
+            key,
+            draftToValue(property, values[key] ?? "", `${path}.${key}`),
+          ] as const,
+      )
+      .filter(([, value]) => value !== undefined);
+    return entries.length > 0 || !node.optional
+      ? Object.fromEntries(entries)
+      : undefined;
+  }
+
+  const text = typeof draft === "string" ? draft : "";
+  if (text.trim() === "") return undefined;
+  if (field.kind === "array" && isScalarField(field.item.field)) {
+    return text
+      .split(",")
+      .map((item) => item.trim())
+      .filter(Boolean)
+      .map((item, index) => parseScalar(field.item, item, `${path}[${index}]`));
+  }
+  if (field.kind === "array" || field.kind === "json") {
+    try {
+      return JSON.parse(text);
+    } catch {
+      throw new Error(`${path}: invalid JSON`);
+    }
+  }
+  return parseScalar(node, text, path);
+}
+
+const inputClassName =
+  "w-full rounded-md border border-border bg-background px-2 py-1 text-sm focus:outline-none focus:ring-2 focus:ring-muted-foreground/30";
+
+interface SchemaFieldInputProps {
+  id: string;
+  node: SchemaNode;
+  draft: FormDraft;
+  onChange: (draft: FormDraft) => void;
+}
+
+function SchemaFieldInput({
+  id,
+  node,
+  draft,
+  onChange,
+}: SchemaFieldInputProps) {
+  const { field, optional } = node;
+  const text = typeof draft === "string" ? draft : "";
+
+  switch (field.kind) {
+    case "object":
+      return (
+        <SchemaFields
+          idPrefix={id}
+          properties={field.properties}
+          draft={typeof draft === "object" ? draft : {}}
+          onChange={onChange}
+          className="pl-3 border-l border-border"
+        />
+      );
+    case "boolean":
+    case "enum": {
+      const options =
+        field.kind === "boolean"
+          ? ["true", "false"]
+          : field.options.map(String);
+      if (field.kind === "boolean" && !optional) {
+        return (
+          <input
+            id={id}
+            type="checkbox"
+            checked={text === "true"}
+            onChange={(event) =>
+              onChange(event.target.checked ? "true" : "false")
+            }
+            className="h-4 w-4"
+          />
+        );
+      }
+      return (
+        <select
+          id={id}
+          value={text}
+          onChange={(event) => onChange(event.target.value)}
+          className={inputClassName}
+        >
+          {optional && <option value="">(not set)</option>}
+          {options.map((option) => (
+            <option key={option} value={option}>
+              {option}
+            </option>
+          ))}
+        </select>
+      );
+    }
+    case "number":
+      return (
+        <input
+          id={id}
+          type="number"
+          value={text}
+          min={field.min}
+          max={field.max}
+          step={field.integer ? 1 : "any"}
+          onChange={(event) => onChange(event.target.value)}
+          className={inputClassName}
+        />
+      );
+    case "string":
+      return (
+        <input
+          id={id}
+          type="text"
+          value={text}
+          onChange={(event) => onChange(event.target.value)}
+          className={inputClassName}
+        />
+      );
+    case "array":
+      if (isScalarField(field.item.field)) {
+        return (
+          <input
+            id={id}
+            type="text"
+            value={text}
+            placeholder="Comma-separated values"
+            onChange={(event) => onChange(event.target.value)}
+            className={inputClassName}
+          />
+        );
+      }
+      // Arrays of objects are edited as JSON
+      return <JsonInput id={id} text={text} onChange={onChange} />;
+    case "json":
+      return <JsonInput id={id} text={text} onChange={onChange} />;
+  }
+}
+
+function JsonInput({
+  id,
+  text,
+  onChange,
+}: {
+  id: string;
+  text: string;
+  onChange: (text: string) => void;
+}) {
+  return (
+    <textarea
+      id={id}
+      value={text}
+      rows={4}
+      placeholder="JSON"
+      onChange={(event) => onChange(event.target.value)}
+      className={cn(inputClassName, "font-mono text-xs")}
+    />
+  );
+}
+
+interface SchemaFieldsProps {
+  idPrefix: string;
+  properties: [key: string, node: SchemaNode][];
+  draft: { [key: string]: FormDraft };
+  onChange: (draft: { [key: string]: FormDraft }) => void;
+  className?: string;
+}
+
+function SchemaFields({
+  idPrefix,
+  properties,
+  draft,
+  onChange,
+  className,
+}: SchemaFieldsProps) {
+  return (
+    <div className={cn("flex flex-col gap-3", className)}>
+      {properties.map(([key, node]) => {
+        const id = `${idPrefix}-${key}`;
+        return (
+          <div key={key} className="flex flex-col gap-1">
+            <label htmlFor={id} className="text-sm font-medium">
+              {key}
+              {!node.optional && (
+                <span className="text-red-500" aria-hidden="true">
+                  {" "}
+                  *
+                </span>
+              )}
+            </label>
+            {node.description && (
+              <p className="text-xs text-muted-foreground">
+                {node.description}
+              </p>
+            )}
+            <SchemaFieldInput
+              id={id}
+              node={node}
+              draft={draft[key] ?? ""}
+              onChange={(value) => onChange({ ...draft, [key]: value })}
+            />
+          </div>
+        );
+      })}
+    </div>
+  );
+}
+
+export interface SchemaFormProps {
+  node: SchemaNode;
+  draft: FormDraft;
+  onChange: (draft: FormDraft) => void;
+}
+
+/**
+ * Form generated from a schema node. Objects render one labelled control per
+ * property; other schemas render a single control.
+ */
+export function SchemaForm({ node, draft, onChange }: SchemaFormProps) {
+  const id = React.useId();
+  if (node.field.kind !== "object") {
+    return (
+      <SchemaFieldInput id={id} node={node} draft={draft} onChange={onChange} />
+    );
+  }
+  return (
+    <SchemaFields
+      idPrefix={id}
+      properties={node.field.properties}
+      draft={typeof draft === "object" ? draft : {}}
+      onChange={onChange}
+    />
+  );
+}
@@ -0,0 +1,121 @@
+"use client";
+
+import type { TamboComponent } from "@tambo-ai/react";
+import { CheckCircle2, Loader2, Play, XCircle } from "lucide-react";
+import * as React from "react";
+import {
+  runStreamingHarnessForAll,
+  type StreamingHarnessOptions,
+  type StreamingReport,
+} from "../streaming-harness";
+
+export interface StreamingCheckProps {
+  components: TamboComponent[];
+  wrapper?: StreamingHarnessOptions["wrapper"];
+}
+
+/**
+ * Replays partial props for every component and sample and lists the steps
+ * that crashed or hit an error boundary
+ */
+export function StreamingCheck({ components, wrapper }: StreamingCheckProps) {
+  const [reports, setReports] = React.useState<StreamingReport[] | null>(null);
+  const [isRunning, setIsRunning] = React.useState(false);
+
+  const handleRun = async () => {
+    setIsRunning(true);
+    try {
+      setReports(await runStreamingHarnessForAll(components, { wrapper }));
+    } finally {
+      setIsRunning(false);
+    }
+  };
+
+  const failed = reports?.filter((report) => report.errors.length > 0) ?? [];
+
+  return (
+    <section className="flex flex-col gap-3 rounded-md border border-border p-4">
+      <div className="flex flex-wrap items-center gap-3">
+        <button
+          type="button"
+          disabled={isRunning}
+          onClick={handleRun}
+          className="inline-flex items-center gap-1.5 rounded-md border border-border px-3 py-1.5 text-sm hover:bg-muted disabled:opacity-50 disabled:cursor-not-allowed cursor-pointer"
+        >
+          {isRunning ? (
+            <Loader2 className="h-4 w-4 animate-spin" />
+          ) : (
+            <Play className="h-4 w-4" />
+          )}
+          Check streaming for all components
+        </button>
+        {reports && !isRunning && (
+          <span
+            className={
+              failed.length > 0
+                ? "inline-flex items-center gap-1 text-sm text-red-600"
+                : "inline-flex items-center gap-1 text-sm text-green-600"
+            }
+          >
+            {failed.length > 0 ? (
+              <XCircle className="h-4 w-4" />
+            ) : (
+              <CheckCircle2 className="h-4 w-4" />
+            )}
+            {failed.length} of {reports.length} samples failed
+          </span>
+        )}
+      </div>
+      {reports && (
+        <ul aria-live="polite" className="flex flex-col gap-1 text-sm">
+          {reports.map((report) => (
+            <li key={`${report.component}/${report.sample}`}>
+              <StreamingReportItem report={report} />
+            </li>
+          ))}
+        </ul>
+      )}
+    </section>
+  );
+}
+
+function StreamingReportItem({ report }: { report: StreamingReport }) {
+  const title = `${report.component} · ${report.sample} · ${report.steps} steps`;
+  if (report.errors.length === 0) {
+    return (
+      <span className="inline-flex items-center gap-1">
+        <CheckCircle2 className="h-4 w-4 text-green-600" />
+        {title}
+      </span>
+    );
+  }
+
+  return (
+    <details>
+      <summary className="cursor-pointer">
+        <span className="inline-flex items-center gap-1">
+          <XCircle className="h-4 w-4 text-red-600" />
+          {title} · {report.errors.length} errors
+        </span>
+      </summary>
+      <ul className="mt-2 flex flex-col gap-2 pl-5">
+        {report.errors.map((error, index) => (
+          <li key={index} className="rounded-md bg-red-50 p-3 text-red-700">
+            <p className="font-medium">
+              Step {error.step + 1}:{" "}
+              {error.kind === "crash"
+                ? "the component crashed"
+                : error.kind === "loading"
+                  ? "the component is still loading"
+                  : "an error boundary caught an error"}
+            </p>
+            <p className="mt-1 font-mono text-xs">{error.message}</p>
+            <pre className="mt-2 max-h-48 overflow-auto text-xs">
+              {JSON.stringify(error.props, null, 2)}
+            </pre>
+          </li>
+        ))}
+      </ul>
+    </details>
+  );
+}
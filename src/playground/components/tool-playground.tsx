@@ -0,0 +1,299 @@
+"use client";
+
+import { Graph, type GraphProps } from "@/components/tambo/graph";
+import { DataCard, type DataCardProps } from "@/components/ui/card-data";
+import {
+  needsToolConfirmation,
+  type ConfirmableTool,
+} from "@/lib/tool-confirmation";
+import type { ValidatedTool } from "@/lib/tool-middleware";
+import { cn } from "@/lib/utils";
+import { asZodSchema, describeSchema, formatZodIssues } from "@/lib/zod-schema";
+import type { TamboTool } from "@tambo-ai/react";
+import {
+  CheckCircle2,
+  Loader2,
+  Play,
+  ShieldAlert,
+  XCircle,
+} from "lucide-react";
+import * as React from "react";
+import { toDataCardProps, toGraphProps } from "../tool-output-props";
+import { IssueList } from "./issue-list";
+import {
+  createDraft,
+  draftToValue,
+  SchemaForm,
+  type FormDraft,
+} from "./schema-form";
+
+type RunState =
+  | { status: "idle" }
+  | { status: "running" }
+  | { status: "invalid-input"; issues: string[] }
+  | { status: "error"; message: string; durationMs: number }
+  | {
+      status: "done";
+      output: unknown;
+      outputIssues: string[] | null;
+      durationMs: number;
+    };
+
+type Rendered =
+  | { component: "Graph"; props: GraphProps }
+  | { component: "DataCard"; props: DataCardProps };
+
+const buttonClassName =
+  "inline-flex items-center gap-1.5 rounded-md border border-border px-3 py-1.5 text-sm hover:bg-muted disabled:opacity-50 disabled:cursor-not-allowed cursor-pointer";
+
+/**
+ * Runs one tool with an input form generated from its input schema and shows
+ * the result checked against its output schema
+ */
+function ToolRunner({ tool }: { tool: TamboTool }) {
+  const inputSchema = asZodSchema(tool.inputSchema);
+  const outputSchema = asZodSchema(tool.outputSchema);
+  const node = React.useMemo(
+    () => (inputSchema ? describeSchema(inputSchema) : null),
+    [inputSchema],
+  );
+  const [draft, setDraft] = React.useState<FormDraft>(() =>
+    node ? createDraft(node) : "{}",
+  );
+  const [run, setRun] = React.useState<RunState>({ status: "idle" });
+  const [rendered, setRendered] = React.useState<Rendered | null>(null);
+
+  const title = tool.title ?? tool.name;
+  // There is no thread here to ask for confirmation in
+  const isRunnable = !needsToolConfirmation(tool as ConfirmableTool);
+
+  const handleRun = async (event: React.FormEvent) => {
+    event.preventDefault();
+    setRendered(null);
+
+    let input: unknown;
+    try {
+      input = node
+        ? draftToValue(node, draft)
+        : JSON.parse(typeof draft === "string" ? draft : "{}");
+    } catch (error) {
+      setRun({
+        status: "invalid-input",
+        issues: [error instanceof Error ? error.message : String(error)],
+      });
+      return;
+    }
+    // Tools that validate their own input get it as the model would send it
+    if (inputSchema && (tool as ValidatedTool).validateInput !== false) {
+      const parsed = inputSchema.safeParse(input);
+      if (!parsed.success) {
+        setRun({
+          status: "invalid-input",
+          issues: formatZodIssues(parsed.error),
+        });
+        return;
+      }
+      input = parsed.data;
+    }
+
+    setRun({ status: "running" });
+    const start = performance.now();
+    try {
+      const output: unknown = await tool.tool(input);
+      const durationMs = Math.round(performance.now() - start);
+      const parsed = outputSchema?.safeParse(output);
+      setRun({
+        status: "done",
+        output,
+        outputIssues:
+          parsed && !parsed.success ? formatZodIssues(parsed.error) : null,
+        durationMs,
+      });
+    } catch (error) {
+      setRun({
+        status: "error",
+        message: error instanceof Error ? error.message : String(error),
+        durationMs: Math.round(performance.now() - start),
+      });
+    }
+  };
+
+  const graphProps =
+    run.status === "done" ? toGraphProps(title, run.output) : null;
+  const dataCardProps =
+    run.status === "done" ? toDataCardProps(title, run.output) : null;
+
+  return (
+    <div className="flex flex-col gap-6">
+      <div>
+        <h2 className="text-lg font-semibold">{title}</h2>
+        <p className="text-sm text-muted-foreground mt-1">{tool.description}</p>
+      </div>
+
+      <form onSubmit={handleRun} className="flex flex-col gap-4">
+        {node ? (
+          <SchemaForm node={node} draft={draft} onChange={setDraft} />
+        ) : (
+          <textarea
+            aria-label="Input (JSON)"
+            value={typeof draft === "string" ? draft : ""}
+            rows={6}
+            onChange={(event) => setDraft(event.target.value)}
+            className="w-full rounded-md border border-border bg-background px-2 py-1 font-mono text-xs"
+          />
+        )}
+        <div className="flex flex-wrap items-center gap-3">
+          <button
+            type="submit"
+            disabled={!isRunnable || run.status === "running"}
+            className={cn(
+              buttonClassName,
+              "bg-foreground text-background hover:bg-foreground/90",
+            )}
+          >
+            {run.status === "running" ? (
+              <Loader2 className="h-4 w-4 animate-spin" />
+            ) : (
+              <Play className="h-4 w-4" />
+            )}
+            Run
+          </button>
+          {!isRunnable && (
+            <span className="inline-flex items-center gap-1 text-sm text-muted-foreground">
+              <ShieldAlert className="h-4 w-4" />
+              Needs the user&apos;s confirmation, so it only runs from a chat
+              thread
+            </span>
+          )}
+        </div>
+      </form>
+
+      <div aria-live="polite" className="flex flex-col gap-3">
+        {run.status === "invalid-input" && (
+          <IssueList title="Invalid input" issues={run.issues} />
+        )}
+        {run.status === "error" && (
+          <div className="rounded-md bg-red-50 p-3 text-sm text-red-700">
+            <p className="font-medium">
+              The tool threw an error after {run.durationMs}ms
+            </p>
+            <p className="mt-1 font-mono text-xs">{run.message}</p>
+          </div>
+        )}
+        {run.status === "done" && (
+          <>
+            <div className="flex flex-wrap items-center gap-3 text-sm">
+              {run.outputIssues ? (
+                <span className="inline-flex items-center gap-1 text-red-600">
+                  <XCircle className="h-4 w-4" />
+                  Does not match outputSchema
+                </span>
+              ) : (
+                <span className="inline-flex items-center gap-1 text-green-600">
+                  <CheckCircle2 className="h-4 w-4" />
+                  {outputSchema
+                    ? "Matches outputSchema"
+                    : "No Zod outputSchema to check against"}
+                </span>
+              )}
+              <span className="text-muted-foreground">{run.durationMs}ms</span>
+            </div>
+            {run.outputIssues && (
+              <IssueList title="Output issues" issues={run.outputIssues} />
+            )}
+            <pre className="max-h-96 overflow-auto rounded-md bg-muted p-3 text-xs">
+              {JSON.stringify(run.output, null, 2)}
+            </pre>
+            <div className="flex flex-wrap gap-2">
+              <button
+                type="button"
+                disabled={!graphProps}
+                title={graphProps ? undefined : "This result cannot be charted"}
+                onClick={() =>
+                  graphProps &&
+                  setRendered({ component: "Graph", props: graphProps })
+                }
+                className={buttonClassName}
+              >
+                Render as Graph
+              </button>
+              <button
+                type="button"
+                disabled={!dataCardProps}
+                title={
+                  dataCardProps
+                    ? undefined
+                    : "This result is not a list of rows"
+                }
+                onClick={() =>
+                  dataCardProps &&
+                  setRendered({ component: "DataCard", props: dataCardProps })
+                }
+                className={buttonClassName}
+              >
+                Render as DataCard
+              </button>
+            </div>
+          </>
+        )}
+        {rendered?.component === "Graph" && <Graph {...rendered.props} />}
+        {rendered?.component === "DataCard" && <DataCard {...rendered.props} />}
+      </div>
+    </div>
+  );
+}
+
+export interface ToolPlaygroundProps {
+  tools: TamboTool[];
+}
+
+/**
+ * Lists tools and runs the selected one locally, without the model
+ */
+export function ToolPlayground({ tools }: ToolPlaygroundProps) {
+  const [selectedName, setSelectedName] = React.useState(tools[0]?.name);
+  const selected = tools.find((tool) => tool.name === selectedName);
+
+  return (
+    <div className="flex h-full">
+      <nav
+        aria-label="Tools"
+        className="w-64 shrink-0 overflow-auto border-r border-border p-4"
+      >
+        <ul className="flex flex-col gap-1">
+          {tools.map((tool) => (
+            <li key={tool.name}>
+              <button
+                type="button"
+                aria-current={tool.name === selectedName ? "page" : undefined}
+                onClick={() => setSelectedName(tool.name)}
+                className={cn(
+                  "w-full rounded-md px-3 py-2 text-left text-sm hover:bg-muted cursor-pointer",
+                  tool.name === selectedName && "bg-muted font-medium",
+                )}
+              >
+                <span className="inline-flex items-center gap-1.5">
+                  {tool.title ?? tool.name}
+                  {needsToolConfirmation(tool as ConfirmableTool) && (
+                    <ShieldAlert
+                      aria-label="Needs confirmation"
+                      className="h-3.5 w-3.5 text-muted-foreground"
+                    />
+                  )}
+                </span>
+              </button>
+            </li>
+          ))}
+        </ul>
+      </nav>
+      <main className="flex-1 overflow-auto p-8">
+        {selected ? (
+          // Remount per tool so each starts with a fresh form and result
+          <ToolRunner key={selected.name} tool={selected} />
+        ) : (
+          <p className="text-sm text-muted-foreground">No tools registered.</p>
+        )}
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,136 @@
+// Renders components step by step with the partial props a stream would
+// produce, and reports every step that crashes or hits an error boundary, and
+// full props that still render a loading state
+
+import { getComponentSamples } from "@/lib/component-samples";
+import { createPartialPropsSequence } from "@/lib/partial-props";
+import type { TamboComponent } from "@tambo-ai/react";
+import * as React from "react";
+import { flushSync } from "react-dom";
+import { createRoot } from "react-dom/client";
+import { PreviewErrorBoundary } from "./components/preview-error-boundary";
+
+export interface StreamingError {
+  /**
+   * "crash" when the error escaped the component, "error-boundary" when one
+   * of the component's own error boundaries caught it, "loading" when the
+   * full props still render a loading state
+   */
+  kind: "crash" | "error-boundary" | "loading";
+  step: number;
+  props: unknown;
+  message: string;
+}
+
+export interface StreamingReport {
+  component: string;
+  /** Name of the sample the props came from */
+  sample: string;
+  steps: number;
+  errors: StreamingError[];
+}
+
+export interface StreamingHarnessOptions {
+  /** Number of chunks the props JSON is split into */
+  steps?: number;
+  /** Time to let timers and effects run between steps */
+  stepDelayMs?: number;
+  /** Provides the context the component needs, e.g. a TamboProvider */
+  wrapper?: React.ComponentType<{ children: React.ReactNode }>;
+}
+
+const wait = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/**
+ * Renders a component with each step of its props as they would stream in,
+ * ending with the full props. The component is mounted once and re-rendered
+ * on every step, as it is in a thread, in an offscreen container so that
+ * layout-dependent code runs. A component's own error boundary usually keeps
+ * showing its fallback after catching, so only its first hit is reported.
+ * Components mark loading states with `aria-busy="true"`; one still shown
+ * after the full props is reported too.
+ */
+export async function runStreamingHarness(
+  component: TamboComponent,
+  props: unknown,
+  { steps, stepDelayMs = 16, wrapper: Wrapper }: StreamingHarnessOptions = {},
+): Promise<Omit<StreamingReport, "sample">> {
+  const sequence = createPartialPropsSequence(props, steps);
+  const errors: StreamingError[] = [];
+  let step = 0;
+
+  const record = (kind: StreamingError["kind"], error: unknown) => {
+    errors.push({
+      kind,
+      step,
+      props: sequence[step],
+      message: error instanceof Error ? error.message : String(error),
+    });
+  };
+
+  const container = document.createElement("div");
+  container.setAttribute("aria-hidden", "true");
+  Object.assign(container.style, {
+    position: "fixed",
+    left: "-10000px",
+    top: "0",
+    width: "800px",
+  });
+  document.body.appendChild(container);
+
+  const root = createRoot(container, {
+    onCaughtError: (error, info) =>
+      record(
+        info.errorBoundary instanceof PreviewErrorBoundary
+          ? "crash"
+          : "error-boundary",
+        error,
+      ),
+    onUncaughtError: (error) => record("crash", error),
+  });
+
+  const Component = component.component;
+  try {
+    for (step = 0; step < sequence.length; step++) {
+      const preview = (
+        <PreviewErrorBoundary resetKey={sequence[step]}>
+          <Component {...(sequence[step] as object)} />
+        </PreviewErrorBoundary>
+      );
+      flushSync(() =>
+        root.render(Wrapper ? <Wrapper>{preview}</Wrapper> : preview),
+      );
+      await wait(stepDelayMs);
+    }
+    step = sequence.length - 1;
+    if (container.querySelector('[aria-busy="true"]')) {
+      record("loading", "The full props still render a loading state");
+    }
+  } finally {
+    root.unmount();
+    container.remove();
+  }
+
+  return { component: component.name, steps: sequence.length, errors };
+}
+
+/**
+ * Runs the streaming harness for every component, once per sample
+ */
+export async function runStreamingHarnessForAll(
+  components: TamboComponent[],
+  options?: StreamingHarnessOptions,
+): Promise<StreamingReport[]> {
+  const reports: StreamingReport[] = [];
+  for (const component of components) {
+    for (const sample of getComponentSamples(component)) {
+      const report = await runStreamingHarness(
+        component,
+        sample.value,
+        options,
+      );
+      reports.push({ ...report, sample: sample.label });
+    }
+  }
+  return reports;
+}
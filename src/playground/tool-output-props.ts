@@ -0,0 +1,131 @@
+// Converts tool results into props for the Graph and DataCard components, so
+// the playground can render a result without going through the model
+
+import { graphSchema, type GraphProps } from "@/components/tambo/graph";
+import { dataCardSchema, type DataCardProps } from "@/components/ui/card-data";
+
+type Row = Record<string, unknown>;
+
+const isRow = (value: unknown): value is Row =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const isRowArray = (value: unknown): value is Row[] =>
+  Array.isArray(value) && value.length > 0 && value.every(isRow);
+
+const keysWhere = (rows: Row[], test: (value: unknown) => boolean) =>
+  Object.keys(rows[0]).filter((key) => rows.every((row) => test(row[key])));
+
+const isUnique = (rows: Row[], key: string) =>
+  new Set(rows.map((row) => row[key])).size === rows.length;
+
+// Preferred keys for the label of a row, in order
+const LABEL_KEYS = ["countryName", "name", "label", "title", "group"];
+// Preferred keys for the identifier of a row, in order
+const ID_KEYS = ["countryCode", "id", "code", "key", ...LABEL_KEYS, "year"];
+// Preferred keys for the main value of a row, plotted on the left axis
+const VALUE_KEYS = ["population", "total", "value"];
+
+function rowsToGraphData(unsortedRows: Row[]) {
+  const numericKeys = keysWhere(
+    unsortedRows,
+    (value) => typeof value === "number",
+  );
+  const stringKeys = keysWhere(
+    unsortedRows,
+    (value) => typeof value === "string",
+  );
+  // A year column with one value per row is a time axis
+  const isTimeSeries =
+    numericKeys.includes("year") && isUnique(unsortedRows, "year");
+  const rows = isTimeSeries
+    ? [...unsortedRows].sort((a, b) => (a.year as number) - (b.year as number))
+    : unsortedRows;
+  const labelKey = isTimeSeries
+    ? "year"
+    : (LABEL_KEYS.find((key) => stringKeys.includes(key)) ?? stringKeys[0]);
+  if (!labelKey) return null;
+
+  const primaryKey = VALUE_KEYS.find((key) => numericKeys.includes(key));
+  const valueKeys = numericKeys
+    .filter((key) => key !== labelKey && key !== "year")
+    .sort((a, b) => Number(b === primaryKey) - Number(a === primaryKey));
+  if (valueKeys.length === 0) return null;
+
+  return {
+    type: isTimeSeries ? ("line" as const) : ("bar" as const),
+    labels: rows.map((row) => String(row[labelKey])),
+    // Columns after the first usually have another unit, e.g. a growth rate
+    datasets: valueKeys.map((key, index) => ({
+      label: key,
+      data: rows.map((row) => row[key] as number),
+      ...(index > 0 && { axis: "right" as const }),
+    })),
+  };
+}
+
+/**
+ * Builds Graph props from a tool result: results with a `graph` field (and
+ * optional `annotations`), `labels`/`datasets` objects, and arrays of rows
+ * with numeric columns.
+ * @returns The props, or null when the result cannot be charted
+ */
+export function toGraphProps(
+  title: string,
+  output: unknown,
+): GraphProps | null {
+  let candidate: unknown = null;
+  if (isRow(output) && isRow(output.graph)) {
+    candidate = { title, data: output.graph, annotations: output.annotations };
+  } else if (isRow(output) && "labels" in output && "datasets" in output) {
+    candidate = { title, data: { type: "line", ...output } };
+  } else if (isRowArray(output)) {
+    const data = rowsToGraphData(output);
+    candidate = data && { title, data };
+  }
+
+  const parsed = graphSchema.safeParse(candidate);
+  return parsed.success ? parsed.data : null;
+}
+
+/**
+ * Builds DataCard props from a tool result that is an array of rows, one
+ * option per row with its other fields as the description
+ * @returns The props, or null when the result is not a list of rows
+ */
+export function toDataCardProps(
+  title: string,
+  output: unknown,
+): DataCardProps | null {
+  if (!isRowArray(output)) return null;
+
+  const primitiveKeys = keysWhere(output, (value) =>
+    ["string", "number", "boolean", "undefined"].includes(typeof value),
+  );
+  const idKey = ID_KEYS.find(
+    (key) => primitiveKeys.includes(key) && isUnique(output, key),
+  );
+  const labelKey =
+    LABEL_KEYS.find((key) => primitiveKeys.includes(key)) ?? idKey;
+
+  const options = output.map((row, index) => {
+    const id = idKey ? String(row[idKey]) : String(index);
+    return {
+      id,
+      label: labelKey ? String(row[labelKey]) : `Item ${index + 1}`,
+      value: id,
+      description: primitiveKeys
+        .filter(
+          (key) => key !== idKey && key !== labelKey && row[key] !== undefined,
+        )
+        .map((key) => `${key}: ${String(row[key])}`)
+        .join(" · "),
+    };
+  });
+
+  const parsed = dataCardSchema.safeParse({
+    title,
+    options,
+    selectionMode: "none",
+  });
+  return parsed.success ? parsed.data : null;
+}
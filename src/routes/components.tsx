@@ -0,0 +1,39 @@
+import { createFileRoute } from '@tanstack/react-router';
+import { useAnonymousUserKey } from '@/lib/use-anonymous-user-key';
+import { components, tools } from '@/lib/tambo';
+import { ComponentGallery } from '../playground/components/component-gallery';
+import { TamboProvider } from '@tambo-ai/react';
+import type { ReactNode } from 'react';
+
+export const Route = createFileRoute('/components')({
+  component: ComponentsPage,
+});
+
+// Graph and DataCard read thread state from the provider, so the gallery and
+// the streaming check, which renders outside the page, both need one
+function PreviewProvider({ children }: { children: ReactNode }) {
+  const userKey = useAnonymousUserKey();
+
+  return (
+    <TamboProvider
+      apiKey={import.meta.env.VITE_TAMBO_API_KEY!}
+      // For production, use userToken with your auth provider instead. See: https://docs.tambo.co/concepts/user-authentication
+      userKey={userKey}
+      components={components}
+      tools={tools}
+      tamboUrl={import.meta.env.VITE_TAMBO_URL}
+    >
+      {children}
+    </TamboProvider>
+  );
+}
+
+function ComponentsPage() {
+  return (
+    <PreviewProvider>
+      <div className="h-screen bg-white">
+        <ComponentGallery components={components} wrapper={PreviewProvider} />
+      </div>
+    </PreviewProvider>
+  );
+}
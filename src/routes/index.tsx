@@ -28,6 +28,22 @@ const KeyFilesSection = () => (
           - Interactive demo page with tools and components
         </span>
       </li>
+      <li className="flex items-start gap-2">
+        <span>📄</span>
+        <span>
+          <code className="font-medium font-mono">app/routes/tools.tsx</code> -
+          Playground for running tools without the AI
+        </span>
+      </li>
+      <li className="flex items-start gap-2">
+        <span>📄</span>
+        <span>
+          <code className="font-medium font-mono">
+            app/routes/components.tsx
+          </code>{' '}
+          - Gallery of registered components with sample props
+        </span>
+      </li>
       <li className="flex items-start gap-2">
         <span>📄</span>
         <span>
@@ -129,6 +145,18 @@ function Home() {
                 >
                   Interactables Demo →
                 </a>
+                <a
+                  href="/tools"
+                  className="px-6 py-3 rounded-md font-medium shadow-sm transition-colors text-lg mt-4 border border-gray-300 hover:bg-gray-50 text-gray-800"
+                >
+                  Tool Playground →
+                </a>
+                <a
+                  href="/components"
+                  className="px-6 py-3 rounded-md font-medium shadow-sm transition-colors text-lg mt-4 border border-gray-300 hover:bg-gray-50 text-gray-800"
+                >
+                  Component Gallery →
+                </a>
               </div>
             </ApiKeyCheck>
           </div>
@@ -0,0 +1,30 @@
+import { createFileRoute } from '@tanstack/react-router';
+import { useAnonymousUserKey } from '@/lib/use-anonymous-user-key';
+import { components, playgroundTools, tools } from '@/lib/tambo';
+import { ToolPlayground } from '../playground/components/tool-playground';
+import { TamboProvider } from '@tambo-ai/react';
+
+export const Route = createFileRoute('/tools')({
+  component: ToolsPage,
+});
+
+function ToolsPage() {
+  const userKey = useAnonymousUserKey();
+
+  return (
+    // The provider is only needed by the Graph and DataCard previews
+    <TamboProvider
+      apiKey={import.meta.env.VITE_TAMBO_API_KEY!}
+      // For production, use userToken with your auth provider instead. See: https://docs.tambo.co/concepts/user-authentication
+      userKey={userKey}
+      components={components}
+      tools={tools}
+      tamboUrl={import.meta.env.VITE_TAMBO_URL}
+    >
+      <div className="h-screen bg-white">
+        {/* Tools run through the middleware pipeline, minus the cache */}
+        <ToolPlayground tools={playgroundTools} />
+      </div>
+    </TamboProvider>
+  );
+}
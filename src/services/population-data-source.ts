@@ -0,0 +1,265 @@
+// Pluggable backends for the population tools. The active data source is
+// chosen with VITE_POPULATION_DATA_SOURCE (memory, static or rest) and wrapped
+// with request deduplication and TTL caching.
+
+import { z } from "zod";
+import {
+  mockCountries,
+  mockCountryPopulationRows,
+  mockGlobalPopulation,
+} from "./population-mock-data";
+import {
+  buildCountrySeries,
+  countryPopulationRowSchema,
+  countryRowSchema,
+  globalPopulationRowSchema,
+  parseCsv,
+  validateRows,
+  type CountryPopulationRow,
+  type CountryRecord,
+  type GlobalSeriesPoint,
+  type PopulationDataset,
+} from "./population-data";
+
+// Bump when a new dataset version is added under public/data/population
+export const POPULATION_DATA_VERSION = "v2";
+
+// Default time-to-live of cached data source responses
+const DEFAULT_CACHE_TTL_MS = 5 * 60 * 1000;
+
+/**
+ * A backend serving the raw population rows. Implementations validate what
+ * they return; assembling the rows into a dataset is shared.
+ */
+export interface PopulationDataSource {
+  readonly name: string;
+  getCountries(): Promise<CountryRecord[]>;
+  getCountryPopulationRows(): Promise<CountryPopulationRow[]>;
+  getGlobalPopulation(): Promise<GlobalSeriesPoint[]>;
+}
+
+/**
+ * Serves rows held in memory, by default the small hard-coded mock dataset
+ */
+export const createInMemoryDataSource = (
+  data: {
+    countries: CountryRecord[];
+    countryPopulationRows: CountryPopulationRow[];
+    global: GlobalSeriesPoint[];
+  } = {
+    countries: mockCountries,
+    countryPopulationRows: mockCountryPopulationRows,
+    global: mockGlobalPopulation,
+  },
+): PopulationDataSource => ({
+  name: "memory",
+  getCountries: async () => data.countries,
+  getCountryPopulationRows: async () => data.countryPopulationRows,
+  getGlobalPopulation: async () => data.global,
+});
+
+const fetchOk = async (url: string): Promise<Response> => {
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new Error(
+      `Failed to load ${url}: ${response.status} ${response.statusText}`,
+    );
+  }
+  return response;
+};
+
+const globalPopulationFileSchema = z.object({
+  version: z.string(),
+  rows: z.array(z.unknown()),
+});
+
+/**
+ * Reads the versioned CSV/JSON files shipped in public/data, or files with the
+ * same layout under another base URL
+ */
+export const createStaticFileDataSource = (
+  baseUrl = `${import.meta.env.BASE_URL}data/population/${POPULATION_DATA_VERSION}`,
+): PopulationDataSource => {
+  const readCsv = async (fileName: string) =>
+    parseCsv(await (await fetchOk(`${baseUrl}/${fileName}`)).text());
+
+  return {
+    name: "static",
+    getCountries: async () =>
+      validateRows(
+        await readCsv("countries.csv"),
+        countryRowSchema,
+        "countries.csv",
+      ),
+    getCountryPopulationRows: async () =>
+      validateRows(
+        await readCsv("country-populations.csv"),
+        countryPopulationRowSchema,
+        "country-populations.csv",
+      ),
+    getGlobalPopulation: async () => {
+      const response = await fetchOk(`${baseUrl}/global-population.json`);
+      const file = globalPopulationFileSchema.safeParse(await response.json());
+      if (!file.success) {
+        throw new Error(
+          `Invalid global-population.json: ${file.error.issues[0].message}`,
+        );
+      }
+      return validateRows(
+        file.data.rows,
+        globalPopulationRowSchema,
+        "global-population.json",
+      );
+    },
+  };
+};
+
+/**
+ * Queries an HTTP API that serves the rows as JSON arrays:
+ * GET {baseUrl}/countries, {baseUrl}/country-populations and
+ * {baseUrl}/global-population
+ */
+export const createRestDataSource = (baseUrl: string): PopulationDataSource => {
+  const getRows = async <T>(
+    path: string,
+    schema: z.ZodType<T, z.ZodTypeDef, unknown>,
+  ): Promise<T[]> => {
+    const url = `${baseUrl.replace(/\/+$/, "")}/${path}`;
+    const body: unknown = await (await fetchOk(url)).json();
+    if (!Array.isArray(body)) {
+      throw new Error(`Expected a JSON array from ${url}`);
+    }
+    return validateRows(body, schema, url);
+  };
+
+  return {
+    name: "rest",
+    getCountries: () => getRows("countries", countryRowSchema),
+    getCountryPopulationRows: () =>
+      getRows("country-populations", countryPopulationRowSchema),
+    getGlobalPopulation: () =>
+      getRows("global-population", globalPopulationRowSchema),
+  };
+};
+
+/**
+ * Wraps a data source so that concurrent calls to the same method share one
+ * request and results are reused for `ttlMs`. Failed requests are not cached.
+ */
+export const withCache = (
+  source: PopulationDataSource,
+  ttlMs = DEFAULT_CACHE_TTL_MS,
+): PopulationDataSource => {
+  const cached = <T>(load: () => Promise<T>) => {
+    let entry: { promise: Promise<T>; expiresAt: number } | null = null;
+    return () => {
+      if (entry && Date.now() < entry.expiresAt) return entry.promise;
+      const current = {
+        promise: load(),
+        // Pending requests never expire, so callers share them
+        expiresAt: Number.POSITIVE_INFINITY,
+      };
+      entry = current;
+      current.promise.then(
+        () => {
+          current.expiresAt = Date.now() + ttlMs;
+        },
+        () => {
+          if (entry === current) entry = null;
+        },
+      );
+      return current.promise;
+    };
+  };
+
+  return {
+    name: source.name,
+    getCountries: cached(() => source.getCountries()),
+    getCountryPopulationRows: cached(() => source.getCountryPopulationRows()),
+    getGlobalPopulation: cached(() => source.getGlobalPopulation()),
+  };
+};
+
+/**
+ * Creates the data source configured by the environment:
+ * - VITE_POPULATION_DATA_SOURCE: memory, static (default) or rest
+ * - VITE_POPULATION_DATA_URL: base URL for the static and rest sources
+ * - VITE_POPULATION_CACHE_TTL_MS: cache lifetime in milliseconds
+ */
+const createDataSourceFromEnv = (): PopulationDataSource => {
+  const kind = import.meta.env.VITE_POPULATION_DATA_SOURCE ?? "static";
+  const url: string | undefined = import.meta.env.VITE_POPULATION_DATA_URL;
+  const ttl = Number(import.meta.env.VITE_POPULATION_CACHE_TTL_MS);
+  const ttlMs = Number.isFinite(ttl) && ttl >= 0 ? ttl : DEFAULT_CACHE_TTL_MS;
+
+  switch (kind) {
+    case "memory":
+      return withCache(createInMemoryDataSource(), ttlMs);
+    case "static":
+      return withCache(createStaticFileDataSource(url || undefined), ttlMs);
+    case "rest":
+      if (!url) {
+        throw new Error(
+          "VITE_POPULATION_DATA_URL must be set to use the rest data source",
+        );
+      }
+      return withCache(createRestDataSource(url), ttlMs);
+    default:
+      throw new Error(
+        `Unknown VITE_POPULATION_DATA_SOURCE "${kind}". Use memory, static or rest`,
+      );
+  }
+};
+
+let activeSource: PopulationDataSource | null = null;
+
+/**
+ * Returns the data source used by the population tools
+ */
+export const getPopulationDataSource = (): PopulationDataSource => {
+  activeSource ??= createDataSourceFromEnv();
+  return activeSource;
+};
+
+/**
+ * Replaces the data source used by the population tools, e.g. to point them
+ * at a different backend at runtime
+ */
+export const setPopulationDataSource = (source: PopulationDataSource) => {
+  activeSource = source;
+  lastDataset = null;
+};
+
+let lastDataset: {
+  inputs: [CountryRecord[], CountryPopulationRow[], GlobalSeriesPoint[]];
+  dataset: PopulationDataset;
+} | null = null;
+
+/**
+ * Loads the population dataset from the active data source. The assembled
+ * dataset is reused for as long as the source returns the same rows.
+ */
+export const loadPopulationDataset = async (): Promise<PopulationDataset> => {
+  const source = getPopulationDataSource();
+  const inputs = await Promise.all([
+    source.getCountries(),
+    source.getCountryPopulationRows(),
+    source.getGlobalPopulation(),
+  ]);
+
+  if (
+    lastDataset &&
+    lastDataset.inputs.every((value, index) => value === inputs[index])
+  ) {
+    return lastDataset.dataset;
+  }
+
+  const [countries, countryPopulationRows, global] = inputs;
+  const dataset: PopulationDataset = {
+    countries,
+    countrySeries: buildCountrySeries(countries, countryPopulationRows),
+    global: [...global].sort((a, b) => a.year - b.year),
+  };
+  lastDataset = { inputs, dataset };
+  return dataset;
+};
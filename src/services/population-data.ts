@@ -0,0 +1,258 @@
+// Population dataset format shared by the data sources: types, row schemas
+// and helpers to parse and assemble the rows
+
+import { z } from "zod";
+
+export const CONTINENTS = [
+  "Asia",
+  "Africa",
+  "Europe",
+  "North America",
+  "South America",
+  "Oceania",
+] as const;
+
+// UN M49 sub-regions
+export const REGIONS = [
+  "Northern Africa",
+  "Eastern Africa",
+  "Middle Africa",
+  "Southern Africa",
+  "Western Africa",
+  "Central Asia",
+  "Eastern Asia",
+  "South-eastern Asia",
+  "Southern Asia",
+  "Western Asia",
+  "Eastern Europe",
+  "Northern Europe",
+  "Southern Europe",
+  "Western Europe",
+  "Caribbean",
+  "Central America",
+  "Northern America",
+  "South America",
+  "Australia and New Zealand",
+  "Melanesia",
+  "Micronesia",
+  "Polynesia",
+] as const;
+
+// World Bank income classification
+export const INCOME_GROUPS = [
+  "low",
+  "lower-middle",
+  "upper-middle",
+  "high",
+] as const;
+
+type Continent = (typeof CONTINENTS)[number];
+type Region = (typeof REGIONS)[number];
+type IncomeGroup = (typeof INCOME_GROUPS)[number];
+
+/**
+ * Matches a continent name regardless of case and separators, so "asia",
+ * "north_america" and "South-America" resolve to their canonical names.
+ * @returns The canonical continent, or undefined if there is no match
+ */
+export const parseContinent = (value: string): Continent | undefined => {
+  const normalized = value
+    .trim()
+    .toLowerCase()
+    .replace(/[\s_-]+/g, " ");
+  return CONTINENTS.find((continent) => continent.toLowerCase() === normalized);
+};
+
+interface CountryRecord {
+  countryCode: string;
+  countryName: string;
+  continent: Continent;
+  region?: Region; // missing in v1 data
+  incomeGroup?: IncomeGroup; // missing when the country is unclassified
+}
+
+interface CountrySeriesPoint {
+  year: number;
+  population: number; // in millions
+  growthRate: number; // annualized percentage since the previous point
+}
+
+interface CountryPopulationRow {
+  countryCode: string;
+  year: number;
+  population: number; // in millions
+}
+
+interface GlobalSeriesPoint {
+  year: number;
+  population: number; // in billions
+  growthRate: number; // percentage
+}
+
+interface PopulationDataset {
+  countries: CountryRecord[];
+  // Country series keyed by country code, sorted by year ascending
+  countrySeries: Map<string, CountrySeriesPoint[]>;
+  // Sorted by year ascending
+  global: GlobalSeriesPoint[];
+}
+
+// Row schemas accept both CSV strings and JSON values
+export const countryRowSchema = z.object({
+  countryCode: z.string().regex(/^[A-Z]{3}$/),
+  countryName: z.string().min(1),
+  continent: z.enum(CONTINENTS),
+  // Missing from v1 rows, which predate the region and income group columns
+  region: z
+    .enum(REGIONS)
+    .or(z.literal(""))
+    .nullish()
+    .transform((value) => value || undefined),
+  incomeGroup: z
+    .enum(INCOME_GROUPS)
+    .or(z.literal(""))
+    .nullish()
+    .transform((value) => value || undefined),
+});
+
+export const countryPopulationRowSchema = z.object({
+  countryCode: z.string().regex(/^[A-Z]{3}$/),
+  year: z.coerce.number().int(),
+  population: z.coerce.number().nonnegative(),
+});
+
+export const globalPopulationRowSchema = z.object({
+  year: z.coerce.number().int(),
+  population: z.coerce.number().positive(),
+  growthRate: z.coerce.number(),
+});
+
+// Parse a CSV document into one object per row, keyed by the header row.
+// Supports quoted fields with escaped quotes ("") and commas.
+export function parseCsv(text: string): Record<string, string>[] {
+  const records: string[][] = [];
+  let field = "";
+  let record: string[] = [];
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ",") {
+      record.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") i++;
+      record.push(field);
+      records.push(record);
+      field = "";
+      record = [];
+    } else {
+      field += char;
+    }
+  }
+  if (field || record.length > 0) {
+    record.push(field);
+    records.push(record);
+  }
+
+  const [header = [], ...rows] = records.filter(
+    (row) => row.length > 1 || row[0] !== "",
+  );
+  return rows.map((row) =>
+    Object.fromEntries(header.map((key, index) => [key, row[index] ?? ""])),
+  );
+}
+
+// Validate each row against the schema, reporting the first invalid row with
+// its line number in the source file
+export function validateRows<T>(
+  rows: unknown[],
+  schema: z.ZodType<T, z.ZodTypeDef, unknown>,
+  fileName: string,
+): T[] {
+  return rows.map((row, index) => {
+    const result = schema.safeParse(row);
+    if (!result.success) {
+      const issue = result.error.issues[0];
+      throw new Error(
+        `Invalid row ${index + 2} in ${fileName}: ${issue.path.join(".")} ${issue.message}`,
+      );
+    }
+    return result.data;
+  });
+}
+
+// Annualized growth rate (percentage) between two points, rounded to 2 decimals
+const annualizedGrowthRate = (
+  from: { year: number; population: number },
+  to: { year: number; population: number },
+): number => {
+  if (from.population <= 0 || to.year === from.year) return 0;
+  const rate =
+    (Math.pow(to.population / from.population, 1 / (to.year - from.year)) - 1) *
+    100;
+  return Math.round(rate * 100) / 100;
+};
+
+// Group population rows into a series per country, sorted by year, with the
+// growth rate derived from consecutive points
+export const buildCountrySeries = (
+  countries: CountryRecord[],
+  rows: CountryPopulationRow[],
+): Map<string, CountrySeriesPoint[]> => {
+  const knownCodes = new Set(countries.map((country) => country.countryCode));
+  const grouped = new Map<string, { year: number; population: number }[]>();
+
+  for (const row of rows) {
+    if (!knownCodes.has(row.countryCode)) {
+      throw new Error(
+        `Unknown country code ${row.countryCode} in country population data`,
+      );
+    }
+    grouped.set(row.countryCode, [
+      ...(grouped.get(row.countryCode) ?? []),
+      { year: row.year, population: row.population },
+    ]);
+  }
+
+  const series = new Map<string, CountrySeriesPoint[]>();
+  for (const [countryCode, points] of grouped) {
+    const sorted = points.sort((a, b) => a.year - b.year);
+    series.set(
+      countryCode,
+      sorted.map((point, index) => ({
+        ...point,
+        // The first point has no predecessor, so use the following interval
+        growthRate:
+          index > 0
+            ? annualizedGrowthRate(sorted[index - 1], point)
+            : sorted.length > 1
+              ? annualizedGrowthRate(point, sorted[1])
+              : 0,
+      })),
+    );
+  }
+  return series;
+};
+
+export type {
+  Continent,
+  CountryPopulationRow,
+  CountryRecord,
+  CountrySeriesPoint,
+  GlobalSeriesPoint,
+  IncomeGroup,
+  PopulationDataset,
+  Region,
+};
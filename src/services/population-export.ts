@@ -0,0 +1,53 @@
+// Saves population figures as a CSV file in the browser's downloads. Unlike
+// the other population services this has a side effect, so its tool asks the
+// user for confirmation before it runs.
+
+import { downloadBlob, escapeCsvCell } from "@/lib/use-chart-export";
+import {
+  getCountryPopulations,
+  type CountryPopulation,
+  type CountryPopulationFilter,
+  type PopulationToolError,
+} from "./population-stats";
+
+interface PopulationExport {
+  fileName: string;
+  rowCount: number;
+}
+
+const CSV_COLUMNS: (keyof CountryPopulation)[] = [
+  "countryCode",
+  "countryName",
+  "continent",
+  "region",
+  "incomeGroup",
+  "population",
+  "year",
+  "growthRate",
+];
+
+export const downloadCountryPopulationsCsv = async (
+  filter?: CountryPopulationFilter,
+): Promise<PopulationExport | PopulationToolError> => {
+  const result = await getCountryPopulations(filter);
+  if (!Array.isArray(result)) return result;
+
+  const csv = [
+    CSV_COLUMNS.join(","),
+    ...result.map((row) =>
+      CSV_COLUMNS.map((column) => escapeCsvCell(row[column] ?? "")).join(","),
+    ),
+  ].join("\n");
+  const fileName = [
+    "country-populations",
+    filter?.continent?.toLowerCase().replace(/[^a-z0-9]+/g, "-"),
+    filter?.year,
+  ]
+    .filter(Boolean)
+    .join("-");
+
+  downloadBlob(new Blob([csv], { type: "text/csv" }), `${fileName}.csv`);
+  return { fileName: `${fileName}.csv`, rowCount: result.length };
+};
+
+export type { PopulationExport };
@@ -0,0 +1,145 @@
+// Small hard-coded dataset used by the in-memory data source, handy for demos
+// and offline development without the bundled files
+
+import type {
+  CountryPopulationRow,
+  CountryRecord,
+  GlobalSeriesPoint,
+} from "./population-data";
+
+export const mockGlobalPopulation: GlobalSeriesPoint[] = [
+  { year: 2023, population: 8.045, growthRate: 0.88 },
+  { year: 2022, population: 7.975, growthRate: 0.89 },
+  { year: 2021, population: 7.909, growthRate: 0.9 },
+  { year: 2020, population: 7.84, growthRate: 0.91 },
+  { year: 2019, population: 7.713, growthRate: 1.05 },
+  { year: 2018, population: 7.632, growthRate: 1.08 },
+  { year: 2017, population: 7.55, growthRate: 1.12 },
+  { year: 2016, population: 7.466, growthRate: 1.14 },
+  { year: 2015, population: 7.381, growthRate: 1.19 },
+  { year: 2014, population: 7.294, growthRate: 1.23 },
+  { year: 2013, population: 7.205, growthRate: 1.24 },
+  { year: 2012, population: 7.116, growthRate: 1.25 },
+  { year: 2011, population: 7.028, growthRate: 1.26 },
+  { year: 2010, population: 6.94, growthRate: 1.27 },
+  { year: 2009, population: 6.853, growthRate: 1.28 },
+  { year: 2008, population: 6.766, growthRate: 1.29 },
+  { year: 2007, population: 6.679, growthRate: 1.3 },
+  { year: 2006, population: 6.593, growthRate: 1.31 },
+  { year: 2005, population: 6.507, growthRate: 1.32 },
+  { year: 2004, population: 6.422, growthRate: 1.33 },
+];
+
+export const mockCountries: CountryRecord[] = [
+  {
+    countryCode: "CHN",
+    countryName: "China",
+    continent: "Asia",
+    region: "Eastern Asia",
+    incomeGroup: "upper-middle",
+  },
+  {
+    countryCode: "IND",
+    countryName: "India",
+    continent: "Asia",
+    region: "Southern Asia",
+    incomeGroup: "lower-middle",
+  },
+  {
+    countryCode: "USA",
+    countryName: "United States",
+    continent: "North America",
+    region: "Northern America",
+    incomeGroup: "high",
+  },
+  {
+    countryCode: "IDN",
+    countryName: "Indonesia",
+    continent: "Asia",
+    region: "South-eastern Asia",
+    incomeGroup: "upper-middle",
+  },
+  {
+    countryCode: "PAK",
+    countryName: "Pakistan",
+    continent: "Asia",
+    region: "Southern Asia",
+    incomeGroup: "lower-middle",
+  },
+  {
+    countryCode: "BRA",
+    countryName: "Brazil",
+    continent: "South America",
+    region: "South America",
+    incomeGroup: "upper-middle",
+  },
+  {
+    countryCode: "NGA",
+    countryName: "Nigeria",
+    continent: "Africa",
+    region: "Western Africa",
+    incomeGroup: "lower-middle",
+  },
+  {
+    countryCode: "DEU",
+    countryName: "Germany",
+    continent: "Europe",
+    region: "Western Europe",
+    incomeGroup: "high",
+  },
+  {
+    countryCode: "AUS",
+    countryName: "Australia",
+    continent: "Oceania",
+    region: "Australia and New Zealand",
+    incomeGroup: "high",
+  },
+];
+
+export const mockCountryPopulationRows: CountryPopulationRow[] = [
+  { countryCode: "CHN", year: 1990, population: 1153.7 },
+  { countryCode: "CHN", year: 2000, population: 1264.1 },
+  { countryCode: "CHN", year: 2010, population: 1348.2 },
+  { countryCode: "CHN", year: 2020, population: 1424.9 },
+  { countryCode: "CHN", year: 2023, population: 1425.67 },
+  { countryCode: "IND", year: 1990, population: 870.5 },
+  { countryCode: "IND", year: 2000, population: 1059.6 },
+  { countryCode: "IND", year: 2010, population: 1240.6 },
+  { countryCode: "IND", year: 2020, population: 1396.4 },
+  { countryCode: "IND", year: 2023, population: 1428.63 },
+  { countryCode: "USA", year: 1990, population: 248.1 },
+  { countryCode: "USA", year: 2000, population: 282.4 },
+  { countryCode: "USA", year: 2010, population: 309.3 },
+  { countryCode: "USA", year: 2020, population: 335.9 },
+  { countryCode: "USA", year: 2023, population: 339.99 },
+  { countryCode: "IDN", year: 1990, population: 182.2 },
+  { countryCode: "IDN", year: 2000, population: 214.1 },
+  { countryCode: "IDN", year: 2010, population: 244.0 },
+  { countryCode: "IDN", year: 2020, population: 271.9 },
+  { countryCode: "IDN", year: 2023, population: 277.53 },
+  { countryCode: "PAK", year: 1990, population: 115.4 },
+  { countryCode: "PAK", year: 2000, population: 154.4 },
+  { countryCode: "PAK", year: 2010, population: 194.5 },
+  { countryCode: "PAK", year: 2020, population: 227.2 },
+  { countryCode: "PAK", year: 2023, population: 240.5 },
+  { countryCode: "BRA", year: 1990, population: 150.7 },
+  { countryCode: "BRA", year: 2000, population: 175.9 },
+  { countryCode: "BRA", year: 2010, population: 196.4 },
+  { countryCode: "BRA", year: 2020, population: 213.2 },
+  { countryCode: "BRA", year: 2023, population: 215.31 },
+  { countryCode: "NGA", year: 1990, population: 95.2 },
+  { countryCode: "NGA", year: 2000, population: 122.9 },
+  { countryCode: "NGA", year: 2010, population: 160.9 },
+  { countryCode: "NGA", year: 2020, population: 208.3 },
+  { countryCode: "NGA", year: 2023, population: 223.8 },
+  { countryCode: "DEU", year: 1990, population: 79.4 },
+  { countryCode: "DEU", year: 2000, population: 81.6 },
+  { countryCode: "DEU", year: 2010, population: 80.8 },
+  { countryCode: "DEU", year: 2020, population: 83.3 },
+  { countryCode: "DEU", year: 2023, population: 83.2 },
+  { countryCode: "AUS", year: 1990, population: 17.1 },
+  { countryCode: "AUS", year: 2000, population: 19.0 },
+  { countryCode: "AUS", year: 2010, population: 22.0 },
+  { countryCode: "AUS", year: 2020, population: 25.7 },
+  { countryCode: "AUS", year: 2023, population: 26.17 },
+];
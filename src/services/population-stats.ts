@@ -1,4 +1,21 @@
-// This service provides mock population statistics data for global trends and country-specific information
+// This service provides population statistics for global trends and country-specific information,
+// read from the configured population data source
+
+import {
+  CONFIDENCE_Z_SCORES,
+  fitForecastModel,
+  type ConfidenceLevel,
+  type ForecastModel,
+} from "@/lib/forecast";
+import {
+  CONTINENTS,
+  parseContinent,
+  type Continent,
+  type CountrySeriesPoint,
+  type IncomeGroup,
+  type Region,
+} from "./population-data";
+import { loadPopulationDataset } from "./population-data-source";
 
 interface GlobalPopulation {
   year: number;
@@ -9,132 +26,125 @@ interface GlobalPopulation {
 interface CountryPopulation {
   countryCode: string;
   countryName: string;
-  continent:
-    | "Asia"
-    | "Africa"
-    | "Europe"
-    | "North America"
-    | "South America"
-    | "Oceania";
+  continent: Continent;
+  region?: Region;
+  incomeGroup?: IncomeGroup;
   population: number; // in millions
   year: number;
   growthRate: number;
 }
 
+interface CountryPopulationSeries {
+  countryCode: string;
+  countryName: string;
+  continent: Continent;
+  series: CountrySeriesPoint[]; // sorted by year ascending
+}
+
+interface CountrySeriesFilter {
+  countryCodes: string[];
+  startYear?: number;
+  endYear?: number;
+}
+
+interface CountryComparisonFilter extends CountrySeriesFilter {
+  metric: "population" | "growthRate";
+}
+
+// Shaped like the Graph component's `data` prop
+interface CountryComparison {
+  labels: string[];
+  datasets: { label: string; data: number[] }[];
+}
+
+interface PopulationAggregationFilter {
+  groupBy: "continent" | "region" | "incomeGroup";
+  year?: number;
+}
+
+interface PopulationAggregate {
+  group: string;
+  year: number;
+  countryCount: number;
+  total: number; // in millions
+  mean: number;
+  median: number;
+  min: { countryCode: string; countryName: string; population: number };
+  max: { countryCode: string; countryName: string; population: number };
+  growthRate: number; // population-weighted mean, percentage
+}
+
+interface PopulationProjectionFilter {
+  model: ForecastModel;
+  targetYear: number;
+  countryCode?: string; // projects the global population when omitted
+  startYear?: number; // first observed year used to fit the model
+  confidenceLevel?: ConfidenceLevel;
+}
+
+interface PopulationProjectionPoint {
+  year: number;
+  value: number;
+  lower: number;
+  upper: number;
+  projected: boolean;
+}
+
+interface PopulationProjection {
+  model: ForecastModel;
+  subject: string; // "World" or the country name
+  unit: "billions" | "millions";
+  confidenceLevel: ConfidenceLevel;
+  lastObservedYear: number;
+  fit: {
+    rSquared: number;
+    rmse: number;
+    parameters: Record<string, number>;
+  };
+  points: PopulationProjectionPoint[];
+  // Ready to pass to the Graph component as `data` and `annotations`
+  graph: {
+    type: "line";
+    labels: string[];
+    datasets: {
+      label: string;
+      data: number[];
+      lower: number[];
+      upper: number[];
+    }[];
+  };
+  annotations: { type: "verticalLine"; x: string; label: string }[];
+}
+
 interface GlobalPopulationFilter {
   startYear?: number;
   endYear?: number;
 }
 
 interface CountryPopulationFilter {
-  continent?: string;
-  sortBy?: "population" | "growthRate";
+  continent?: string; // matched case-insensitively
+  sortBy?: "population" | "growthRate" | "name";
   limit?: number;
+  offset?: number;
   order?: "asc" | "desc";
+  year?: number;
 }
 
-const mockGlobalPopulation: GlobalPopulation[] = [
-  { year: 2023, population: 8.045, growthRate: 0.88 },
-  { year: 2022, population: 7.975, growthRate: 0.89 },
-  { year: 2021, population: 7.909, growthRate: 0.9 },
-  { year: 2020, population: 7.84, growthRate: 0.91 },
-  { year: 2019, population: 7.713, growthRate: 1.05 },
-  { year: 2018, population: 7.632, growthRate: 1.08 },
-  { year: 2017, population: 7.55, growthRate: 1.12 },
-  { year: 2016, population: 7.466, growthRate: 1.14 },
-  { year: 2015, population: 7.381, growthRate: 1.19 },
-  { year: 2014, population: 7.294, growthRate: 1.23 },
-  { year: 2013, population: 7.205, growthRate: 1.24 },
-  { year: 2012, population: 7.116, growthRate: 1.25 },
-  { year: 2011, population: 7.028, growthRate: 1.26 },
-  { year: 2010, population: 6.94, growthRate: 1.27 },
-  { year: 2009, population: 6.853, growthRate: 1.28 },
-  { year: 2008, population: 6.766, growthRate: 1.29 },
-  { year: 2007, population: 6.679, growthRate: 1.3 },
-  { year: 2006, population: 6.593, growthRate: 1.31 },
-  { year: 2005, population: 6.507, growthRate: 1.32 },
-  { year: 2004, population: 6.422, growthRate: 1.33 },
-];
-
-const mockCountryPopulation: CountryPopulation[] = [
-  {
-    countryCode: "CHN",
-    countryName: "China",
-    continent: "Asia",
-    population: 1425.67,
-    year: 2023,
-    growthRate: 0.14,
-  },
-  {
-    countryCode: "IND",
-    countryName: "India",
-    continent: "Asia",
-    population: 1428.63,
-    year: 2023,
-    growthRate: 0.81,
-  },
-  {
-    countryCode: "USA",
-    countryName: "United States",
-    continent: "North America",
-    population: 339.99,
-    year: 2023,
-    growthRate: 0.59,
-  },
-  {
-    countryCode: "IDN",
-    countryName: "Indonesia",
-    continent: "Asia",
-    population: 277.53,
-    year: 2023,
-    growthRate: 0.89,
-  },
-  {
-    countryCode: "PAK",
-    countryName: "Pakistan",
-    continent: "Asia",
-    population: 235.82,
-    year: 2023,
-    growthRate: 1.98,
-  },
-  {
-    countryCode: "BRA",
-    countryName: "Brazil",
-    continent: "South America",
-    population: 215.31,
-    year: 2023,
-    growthRate: 0.52,
-  },
-  {
-    countryCode: "NGA",
-    countryName: "Nigeria",
-    continent: "Africa",
-    population: 213.4,
-    year: 2023,
-    growthRate: 2.41,
-  },
-  {
-    countryCode: "DEU",
-    countryName: "Germany",
-    continent: "Europe",
-    population: 83.2,
-    year: 2023,
-    growthRate: 0.12,
-  },
-  {
-    countryCode: "AUS",
-    countryName: "Australia",
-    continent: "Oceania",
-    population: 26.17,
-    year: 2023,
-    growthRate: 1.13,
-  },
-];
+// Returned instead of data when a tool's input is invalid, so the model can
+// correct the call rather than treat an empty result as an answer
+interface PopulationToolError {
+  error: {
+    code: "invalid_input";
+    message: string;
+    issues: { field: string; message: string; allowedValues?: string[] }[];
+  };
+}
 
 export const getGlobalPopulationTrend = async (
   filter?: GlobalPopulationFilter,
 ): Promise<GlobalPopulation[]> => {
-  let filteredData = [...mockGlobalPopulation];
+  const dataset = await loadPopulationDataset();
+  let filteredData = [...dataset.global];
 
   if (filter) {
     if (filter.startYear) {
@@ -152,39 +162,349 @@ export const getGlobalPopulationTrend = async (
   return filteredData.sort((a, b) => b.year - a.year);
 };
 
-export const getCountryPopulations = async (
-  filter?: CountryPopulationFilter,
+// Snapshot of each country at the requested year (or the latest year
+// available), using the closest data point at or before it
+const getCountrySnapshots = async (
+  year?: number,
 ): Promise<CountryPopulation[]> => {
-  let filteredData = [...mockCountryPopulation];
+  const dataset = await loadPopulationDataset();
+  return dataset.countries.flatMap((country) => {
+    const series = dataset.countrySeries.get(country.countryCode) ?? [];
+    const point = series
+      .filter((entry) => year === undefined || entry.year <= year)
+      .at(-1);
+    return point ? [{ ...country, ...point }] : [];
+  });
+};
 
-  if (filter) {
-    // Filter by continent
-    if (filter.continent) {
-      filteredData = filteredData.filter(
-        (country) => country.continent === filter.continent,
-      );
-    }
+const isNonNegativeInteger = (value: unknown) =>
+  typeof value === "number" && Number.isInteger(value) && value >= 0;
+
+export const getCountryPopulations = async (
+  filter?: CountryPopulationFilter,
+): Promise<CountryPopulation[] | PopulationToolError> => {
+  const issues: PopulationToolError["error"]["issues"] = [];
+  const continent =
+    filter?.continent !== undefined
+      ? parseContinent(filter.continent)
+      : undefined;
 
-    // Sort data if sortBy is specified
-    if (filter.sortBy) {
-      filteredData.sort((a, b) => {
-        const compareValue = filter.order === "asc" ? 1 : -1;
-        return (a[filter.sortBy!] - b[filter.sortBy!]) * compareValue;
+  if (filter?.continent !== undefined && !continent) {
+    issues.push({
+      field: "continent",
+      message: `Unknown continent "${filter.continent}"`,
+      allowedValues: [...CONTINENTS],
+    });
+  }
+  if (
+    filter?.limit !== undefined &&
+    (!isNonNegativeInteger(filter.limit) || filter.limit < 1)
+  ) {
+    issues.push({
+      field: "limit",
+      message: "limit must be a positive integer",
+    });
+  }
+  if (filter?.offset !== undefined && !isNonNegativeInteger(filter.offset)) {
+    issues.push({
+      field: "offset",
+      message: "offset must be zero or a positive integer",
+    });
+  }
+  if (filter?.year !== undefined) {
+    const dataset = await loadPopulationDataset();
+    const firstYear = Math.min(
+      ...Array.from(dataset.countrySeries.values(), (series) => series[0].year),
+    );
+    if (!Number.isInteger(filter.year) || filter.year < firstYear) {
+      issues.push({
+        field: "year",
+        message: `year must be an integer of at least ${firstYear}, the first year with country data`,
       });
     }
+  }
+  if (issues.length > 0) {
+    return {
+      error: {
+        code: "invalid_input",
+        message: `Invalid countryPopulation input: ${issues
+          .map((issue) => issue.message)
+          .join("; ")}`,
+        issues,
+      },
+    };
+  }
 
-    // Apply limit for top/bottom N
-    if (filter.limit && filter.limit > 0) {
-      filteredData = filteredData.slice(0, filter.limit);
-    }
+  let filteredData = await getCountrySnapshots(filter?.year);
+
+  // Filter by continent
+  if (continent) {
+    filteredData = filteredData.filter(
+      (country) => country.continent === continent,
+    );
+  }
+
+  // Sort by the requested field; an order on its own sorts by population.
+  // Names default to A-Z and numbers to largest first.
+  const sortBy = filter?.sortBy ?? (filter?.order ? "population" : undefined);
+  if (sortBy) {
+    const direction =
+      (filter?.order ?? (sortBy === "name" ? "asc" : "desc")) === "asc"
+        ? 1
+        : -1;
+    filteredData.sort(
+      (a, b) =>
+        direction *
+        (sortBy === "name"
+          ? a.countryName.localeCompare(b.countryName)
+          : a[sortBy] - b[sortBy]),
+    );
+  }
+
+  // Apply offset and limit for pagination and top/bottom N
+  const offset = filter?.offset ?? 0;
+  return filteredData.slice(
+    offset,
+    filter?.limit !== undefined ? offset + filter.limit : undefined,
+  );
+};
+
+export const getCountryPopulationSeries = async (
+  filter: CountrySeriesFilter,
+): Promise<CountryPopulationSeries[]> => {
+  const dataset = await loadPopulationDataset();
+  const countryCodes = filter.countryCodes.map((code) => code.toUpperCase());
+
+  const unknownCodes = countryCodes.filter(
+    (code) => !dataset.countrySeries.has(code),
+  );
+  if (unknownCodes.length > 0) {
+    throw new Error(`Unknown country codes: ${unknownCodes.join(", ")}`);
+  }
+
+  return countryCodes.flatMap((code) => {
+    const country = dataset.countries.find(
+      (entry) => entry.countryCode === code,
+    );
+    if (!country) return [];
+    const series = (dataset.countrySeries.get(code) ?? []).filter(
+      (point) =>
+        (!filter.startYear || point.year >= filter.startYear) &&
+        (!filter.endYear || point.year <= filter.endYear),
+    );
+    return [{ ...country, series }];
+  });
+};
+
+export const compareCountries = async (
+  filter: CountryComparisonFilter,
+): Promise<CountryComparison> => {
+  const countries = await getCountryPopulationSeries(filter);
+
+  // Only keep years every country has data for, so the datasets line up
+  const years = (countries[0]?.series ?? [])
+    .map((point) => point.year)
+    .filter((year) =>
+      countries.every((country) =>
+        country.series.some((point) => point.year === year),
+      ),
+    );
+
+  return {
+    labels: years.map(String),
+    datasets: countries.map((country) => ({
+      label: country.countryName,
+      data: years.map(
+        (year) =>
+          country.series.find((point) => point.year === year)![filter.metric],
+      ),
+    })),
+  };
+};
+
+// Group label used for countries without an income classification
+const UNCLASSIFIED_GROUP = "unclassified";
+
+const roundTo = (value: number, decimals: number) =>
+  Math.round(value * 10 ** decimals) / 10 ** decimals;
+
+export const aggregatePopulation = async (
+  filter: PopulationAggregationFilter,
+): Promise<PopulationAggregate[]> => {
+  const countries = await getCountrySnapshots(filter.year);
+
+  const groups = new Map<string, CountryPopulation[]>();
+  for (const country of countries) {
+    const group = country[filter.groupBy] ?? UNCLASSIFIED_GROUP;
+    groups.set(group, [...(groups.get(group) ?? []), country]);
+  }
+
+  return Array.from(groups, ([group, members]) => {
+    const byPopulation = [...members].sort(
+      (a, b) => a.population - b.population,
+    );
+    const total = members.reduce((sum, country) => sum + country.population, 0);
+    const middle = Math.floor(byPopulation.length / 2);
+    const median =
+      byPopulation.length % 2 === 0
+        ? (byPopulation[middle - 1].population +
+            byPopulation[middle].population) /
+          2
+        : byPopulation[middle].population;
+    const weightedGrowth =
+      total > 0
+        ? members.reduce(
+            (sum, country) => sum + country.growthRate * country.population,
+            0,
+          ) / total
+        : 0;
+    const toExtreme = (country: CountryPopulation) => ({
+      countryCode: country.countryCode,
+      countryName: country.countryName,
+      population: country.population,
+    });
+
+    return {
+      group,
+      // Latest year among the members, as snapshots fall back to earlier data
+      year: Math.max(...members.map((country) => country.year)),
+      countryCount: members.length,
+      total: roundTo(total, 2),
+      mean: roundTo(total / members.length, 2),
+      median: roundTo(median, 2),
+      min: toExtreme(byPopulation[0]),
+      max: toExtreme(byPopulation[byPopulation.length - 1]),
+      growthRate: roundTo(weightedGrowth, 2),
+    };
+  }).sort((a, b) => b.total - a.total);
+};
+
+// Projections past this year are too uncertain to be useful
+export const MAX_PROJECTION_YEAR = 2100;
+
+export const projectPopulation = async (
+  filter: PopulationProjectionFilter,
+): Promise<PopulationProjection> => {
+  if (
+    !Number.isInteger(filter.targetYear) ||
+    filter.targetYear > MAX_PROJECTION_YEAR
+  ) {
+    throw new Error(
+      `targetYear must be a whole year no later than ${MAX_PROJECTION_YEAR}`,
+    );
   }
+  const confidenceLevel = filter.confidenceLevel ?? 0.95;
+  const observed = filter.countryCode
+    ? (
+        await getCountryPopulationSeries({
+          countryCodes: [filter.countryCode],
+          startYear: filter.startYear,
+        })
+      ).map((country) => ({
+        subject: country.countryName,
+        unit: "millions" as const,
+        series: country.series,
+      }))[0]
+    : {
+        subject: "World",
+        unit: "billions" as const,
+        series: (
+          await getGlobalPopulationTrend({ startYear: filter.startYear })
+        ).reverse(),
+      };
+
+  const lastObservedYear = observed.series.at(-1)?.year;
+  if (lastObservedYear === undefined || observed.series.length < 3) {
+    throw new Error(
+      "Not enough observed data to fit a model. Use an earlier startYear",
+    );
+  }
+  // Guarantees at least one projected year below
+  if (filter.targetYear <= lastObservedYear) {
+    throw new Error(
+      `targetYear must be after the last observed year (${lastObservedYear})`,
+    );
+  }
+
+  const fit = fitForecastModel(
+    filter.model,
+    observed.series.map((point) => point.year),
+    observed.series.map((point) => point.population),
+  );
+  const z = CONFIDENCE_Z_SCORES[confidenceLevel];
+  const decimals = observed.unit === "billions" ? 3 : 2;
+
+  const points: PopulationProjectionPoint[] = [
+    ...observed.series.map((point) => ({
+      year: point.year,
+      value: point.population,
+      lower: point.population,
+      upper: point.population,
+      projected: false,
+    })),
+    ...Array.from(
+      { length: filter.targetYear - lastObservedYear },
+      (_, index) => {
+        const year = lastObservedYear + index + 1;
+        const [lower, upper] = fit.interval(year, z);
+        return {
+          year,
+          value: roundTo(fit.predict(year), decimals),
+          lower: roundTo(lower, decimals),
+          upper: roundTo(upper, decimals),
+          projected: true,
+        };
+      },
+    ),
+  ];
 
-  return filteredData;
+  return {
+    model: filter.model,
+    subject: observed.subject,
+    unit: observed.unit,
+    confidenceLevel,
+    lastObservedYear,
+    fit: {
+      rSquared: roundTo(fit.rSquared, 4),
+      rmse: roundTo(fit.rmse, 4),
+      parameters: fit.parameters,
+    },
+    points,
+    graph: {
+      type: "line",
+      labels: points.map((point) => String(point.year)),
+      datasets: [
+        {
+          label: `${observed.subject} population (${observed.unit})`,
+          data: points.map((point) => point.value),
+          lower: points.map((point) => point.lower),
+          upper: points.map((point) => point.upper),
+        },
+      ],
+    },
+    annotations: [
+      {
+        type: "verticalLine",
+        x: String(lastObservedYear),
+        label: `${filter.model} projection`,
+      },
+    ],
+  };
 };
 
 export type {
+  CountryComparison,
+  CountryComparisonFilter,
   CountryPopulation,
   CountryPopulationFilter,
+  CountryPopulationSeries,
+  CountrySeriesFilter,
   GlobalPopulation,
   GlobalPopulationFilter,
+  PopulationAggregate,
+  PopulationAggregationFilter,
+  PopulationProjection,
+  PopulationProjectionFilter,
+  PopulationProjectionPoint,
+  PopulationToolError,
 };
@@ -1,8 +1,61 @@
-import { defineConfig } from "vite";
+import { defineConfig, type Connect, type Plugin } from "vite";
 import react from "@vitejs/plugin-react";
 import { TanStackRouterVite } from "@tanstack/router-plugin/vite";
 import tailwindcss from "@tailwindcss/vite";
 import viteTsConfigPaths from "vite-tsconfig-paths";
+import { readFile } from "node:fs/promises";
+import { join } from "node:path";
+import { parseCsv } from "./src/services/population-data";
+
+const POPULATION_DATA_DIR = "public/data/population";
+
+// Rows served for each REST resource, read from a bundled dataset version
+const populationResources: Record<string, (dir: string) => Promise<unknown[]>> =
+  {
+    countries: async (dir) =>
+      parseCsv(await readFile(join(dir, "countries.csv"), "utf8")),
+    "country-populations": async (dir) =>
+      parseCsv(await readFile(join(dir, "country-populations.csv"), "utf8")),
+    "global-population": async (dir) =>
+      JSON.parse(await readFile(join(dir, "global-population.json"), "utf8"))
+        .rows,
+  };
+
+/**
+ * Local stand-in for the population REST API used by the rest data source.
+ * Serves GET /api/population/{version}/{countries,country-populations,
+ * global-population} from the bundled datasets, in dev and preview.
+ */
+function populationApi(): Plugin {
+  const handler: Connect.NextHandleFunction = (req, res, next) => {
+    const match = /^\/(v\d+)\/([a-z-]+)\/?(?:\?.*)?$/.exec(req.url ?? "");
+    const load = match && populationResources[match[2]];
+    if (req.method !== "GET" || !match || !load) return next();
+
+    const send = (status: number, body: unknown) => {
+      res.statusCode = status;
+      res.setHeader("Content-Type", "application/json");
+      res.end(JSON.stringify(body));
+    };
+    load(join(POPULATION_DATA_DIR, match[1])).then(
+      (rows) => send(200, rows),
+      (error: NodeJS.ErrnoException) =>
+        error.code === "ENOENT"
+          ? send(404, { error: `Unknown dataset version "${match[1]}"` })
+          : send(500, { error: error.message }),
+    );
+  };
+
+  return {
+    name: "population-api",
+    configureServer: (server) => {
+      server.middlewares.use("/api/population", handler);
+    },
+    configurePreviewServer: (server) => {
+      server.middlewares.use("/api/population", handler);
+    },
+  };
+}
 
 export default defineConfig({
   plugins: [
@@ -13,5 +66,6 @@ export default defineConfig({
     react(),
     tailwindcss(),
     viteTsConfigPaths(),
+    populationApi(),
   ],
 });